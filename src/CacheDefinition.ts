@@ -0,0 +1,143 @@
+import { CacheDefinitionOptions } from './types/CacheDefinitionOptions'
+
+import type CacheXS from './index'
+
+/**
+ * A typed cache entry created through `CacheXS.define`, building its keys from typed arguments
+ * and applying the same expiration, tags and schema to every read and write.
+ *
+ * @example
+ * const userCache = cache.define({ key: (id: number) => `user:${id}`, ttl: 3600, schema: UserSchema });
+ *
+ * await userCache.set(1, user);
+ * const cached = await userCache.get(1); // -> User | null
+ */
+export default class CacheDefinition<T, Args extends unknown[]> {
+	/**
+	 * Constructs a new cache definition.
+	 *
+	 * @param _cache - The cache instance the entries are stored with, under its namespace.
+	 * @param _options - The key builder and the settings of the entries.
+	 */
+	constructor(
+		protected _cache: CacheXS,
+		protected _options: CacheDefinitionOptions<T, Args>
+	) {}
+
+	/**
+	 * Builds the key of an entry, without the namespace.
+	 *
+	 * @param args - The arguments identifying the entry.
+	 * @returns The key.
+	 *
+	 * @example
+	 * userCache.key(1); // -> "user:1"
+	 */
+	public key(...args: Args): string {
+		return this._options.key(...args)
+	}
+
+	/**
+	 * Retrieves the value of an entry, checked against the schema of the definition.
+	 *
+	 * @param args - The arguments identifying the entry.
+	 * @returns A Promise that resolves to the value, or null if the entry is not found.
+	 *
+	 * @example
+	 * const user = await userCache.get(1);
+	 */
+	public get(...args: Args): Promise<T | null> {
+		const { schema, onInvalid } = this._options
+		return this._cache.get<T>(this.key(...args), { schema, onInvalid })
+	}
+
+	/**
+	 * Stores the value of an entry with the expiration and the tags of the definition.
+	 *
+	 * @param params - The arguments identifying the entry, followed by the value.
+	 * @returns A Promise that resolves to 'OK', or null if a `before` hook vetoed the write.
+	 *
+	 * @example
+	 * await userCache.set(1, user);
+	 */
+	public set(...params: [...Args, T]): Promise<'OK' | null> {
+		const args = params.slice(0, -1) as Args
+		const value = params[params.length - 1] as T
+		const { ttl = this._cache.expiresIn, schema } = this._options
+
+		return this._cache.set<T>(this.key(...args), value, { expiresIn: ttl, tags: this.tags(args), schema })
+	}
+
+	/**
+	 * Retrieves the value of an entry, or computes and stores it on a miss with the stampede protection of `remember`.
+	 * The cached value is checked against the schema of the definition as `get` checks it, and the computed one as `set` does.
+	 *
+	 * @param params - The arguments identifying the entry, followed by the factory computing the value.
+	 * @returns A Promise that resolves to the cached or the computed value.
+	 *
+	 * @example
+	 * const user = await userCache.remember(1, () => db.users.find(1));
+	 */
+	public remember(...params: [...Args, () => T | Promise<T>]): Promise<T> {
+		const args = params.slice(0, -1) as Args
+		const factory = params[params.length - 1] as () => T | Promise<T>
+		const { ttl = this._cache.expiresIn, schema, onInvalid } = this._options
+
+		return this._cache.remember<T>(this.key(...args), factory, {
+			expiresIn: ttl,
+			tags: this.tags(args),
+			schema,
+			onInvalid,
+		})
+	}
+
+	/**
+	 * Deletes an entry.
+	 *
+	 * @param args - The arguments identifying the entry.
+	 * @returns A Promise that resolves when the entry is deleted.
+	 *
+	 * @example
+	 * await userCache.delete(1);
+	 */
+	public delete(...args: Args): Promise<void> {
+		return this._cache.delete(this.key(...args))
+	}
+
+	/**
+	 * Gets the remaining time to live of an entry.
+	 *
+	 * @param args - The arguments identifying the entry.
+	 * @returns A Promise that resolves to the time to live in seconds, -1 if the entry never expires, -2 if it is missing.
+	 *
+	 * @example
+	 * const ttl = await userCache.ttl(1);
+	 */
+	public ttl(...args: Args): Promise<number> {
+		return this._cache.ttl(this.key(...args))
+	}
+
+	/**
+	 * Checks if an entry exists.
+	 *
+	 * @param args - The arguments identifying the entry.
+	 * @returns A Promise that resolves to true if the entry exists.
+	 *
+	 * @example
+	 * const cached = await userCache.exists(1);
+	 */
+	public exists(...args: Args): Promise<boolean> {
+		return this._cache.exists(this.key(...args))
+	}
+
+	/**
+	 * Resolves the tags of an entry.
+	 *
+	 * @param args - The arguments identifying the entry.
+	 * @returns The tags of the entry.
+	 */
+	protected tags(args: Args): string[] {
+		const { tags = [] } = this._options
+		return typeof tags === 'function' ? tags(...args) : tags
+	}
+}
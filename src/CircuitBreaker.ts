@@ -0,0 +1,168 @@
+import { CircuitOpenError } from './errors'
+import { CircuitState, CircuitStateChange, ResilienceOptions } from './types/ResilienceOptions'
+
+/**
+ * Counts the consecutive failures of a storage driver and stops sending it commands once they reach the threshold,
+ * until a single probe sent after the cooldown succeeds.
+ */
+export default class CircuitBreaker {
+	/**
+	 * The current state of the circuit.
+	 */
+	protected _state: CircuitState = 'closed'
+
+	/**
+	 * The number of consecutive failures.
+	 */
+	protected _failures = 0
+
+	/**
+	 * The timestamp in milliseconds at which the circuit last opened, null when it is closed.
+	 */
+	protected _openedAt: number | null = null
+
+	/**
+	 * The last failure, null after a successful command.
+	 */
+	protected _lastError: unknown = null
+
+	/**
+	 * Indicates whether the probe of the half-open circuit is in flight, the other commands are skipped meanwhile.
+	 */
+	protected _probing = false
+
+	/**
+	 * The errors thrown by the storage, so they can be told apart from the errors of the callers.
+	 */
+	protected _errors = new WeakSet<object>()
+
+	/**
+	 * Constructs a new closed circuit breaker.
+	 *
+	 * @param _options - The threshold and the cooldown of the circuit.
+	 * @param _onStateChange - Called whenever the circuit changes state.
+	 * @param _now - The clock returning the current time in milliseconds.
+	 */
+	constructor(
+		protected _options: Required<Omit<ResilienceOptions, 'onStateChange'>>,
+		protected _onStateChange: (change: CircuitStateChange) => void,
+		protected _now: () => number = Date.now
+	) {}
+
+	/**
+	 * Sends a command through the circuit, recording its success or failure.
+	 *
+	 * @param command - The name of the command.
+	 * @param run - The function sending the command.
+	 * @returns A Promise that resolves to the reply of the command.
+	 * @throws {CircuitOpenError} If the circuit is open, or its probe is already in flight.
+	 */
+	public async execute<T>(command: string, run: () => Promise<T>): Promise<T> {
+		if (this._state === 'open') {
+			if (this._now() < this.retryAt!) {
+				throw new CircuitOpenError(this.retryAt!)
+			}
+
+			this.transition('half-open', command)
+		}
+
+		const isProbe = this._state === 'half-open'
+
+		if (isProbe) {
+			if (this._probing) {
+				throw new CircuitOpenError(this._now())
+			}
+
+			this._probing = true
+		}
+
+		try {
+			const result = await run()
+
+			this._failures = 0
+			this._lastError = null
+
+			if (this._state !== 'closed') {
+				this._openedAt = null
+				this.transition('closed', command)
+			}
+
+			return result
+		} catch (error) {
+			if (typeof error === 'object' && error !== null) {
+				this._errors.add(error)
+			}
+
+			this._failures++
+			this._lastError = error
+
+			if (isProbe || (this._state === 'closed' && this._failures >= this._options.failureThreshold)) {
+				this._openedAt = this._now()
+				this.transition('open', command, error)
+			}
+
+			throw error
+		} finally {
+			if (isProbe) {
+				this._probing = false
+			}
+		}
+	}
+
+	/**
+	 * Checks whether an error was thrown by the storage or by the open circuit, rather than by a caller.
+	 *
+	 * @param error - The error to check.
+	 * @returns True if the error is a storage failure.
+	 */
+	public isFailure(error: unknown): boolean {
+		return (
+			error instanceof CircuitOpenError ||
+			(typeof error === 'object' && error !== null && this._errors.has(error))
+		)
+	}
+
+	/**
+	 * Changes the state of the circuit and reports it.
+	 */
+	protected transition(state: CircuitState, command: string, error?: unknown): void {
+		const previousState = this._state
+		this._state = state
+		this._onStateChange({ state, previousState, command, ...(error === undefined ? {} : { error }) })
+	}
+
+	/**
+	 * Gets the current state of the circuit.
+	 */
+	public get state(): CircuitState {
+		return this._state
+	}
+
+	/**
+	 * Gets the number of consecutive failures.
+	 */
+	public get failures(): number {
+		return this._failures
+	}
+
+	/**
+	 * Gets the timestamp in milliseconds at which the circuit last opened, null when it is closed.
+	 */
+	public get openedAt(): number | null {
+		return this._openedAt
+	}
+
+	/**
+	 * Gets the timestamp in milliseconds from which a probe can be sent, null when the circuit is closed.
+	 */
+	public get retryAt(): number | null {
+		return this._openedAt === null ? null : this._openedAt + this._options.cooldown
+	}
+
+	/**
+	 * Gets the last failure, null after a successful command.
+	 */
+	public get lastError(): unknown {
+		return this._lastError
+	}
+}
@@ -0,0 +1,138 @@
+import CircuitBreaker from './CircuitBreaker'
+import { CircuitOpenError, CommandTimeoutError } from './errors'
+import { RetryOptions } from './types/RetryOptions'
+import { StorageDriver } from './types/StorageDriver'
+import { sleep } from './utils'
+
+/**
+ * Applies the timeout, the abort signal, the retries and the circuit breaker of an instance to each storage command.
+ *
+ * Only the idempotent commands are retried, and a timed out or aborted command is abandoned rather than cancelled:
+ * Redis still runs it, its reply is ignored.
+ */
+export default class CommandPolicy {
+	/**
+	 * Constructs a new command policy.
+	 *
+	 * @param _timeout - The time in milliseconds each attempt may take, 0 to wait indefinitely.
+	 * @param _signal - The signal aborting the commands, or null.
+	 * @param _retry - The retry policy of the idempotent commands, or null to disable the retries.
+	 * @param _breaker - The circuit breaker counting the failed attempts, or null.
+	 */
+	constructor(
+		protected _timeout: number,
+		protected _signal: AbortSignal | null,
+		protected _retry: Required<RetryOptions> | null,
+		protected _breaker: CircuitBreaker | null
+	) {}
+
+	/**
+	 * Sends a command, retrying it with an exponential backoff when it is idempotent.
+	 *
+	 * @param command - The name of the command.
+	 * @param idempotent - Whether the command can be sent again safely.
+	 * @param run - The function sending the command.
+	 * @returns A Promise that resolves to the reply of the command.
+	 * @throws {CommandTimeoutError} If the last attempt did not reply in time.
+	 * @throws {CircuitOpenError} If the circuit breaker is open, the command is not retried then.
+	 */
+	public async execute<T>(command: string, idempotent: boolean, run: () => Promise<T>): Promise<T> {
+		const retries = idempotent && this._retry ? this._retry.retries : 0
+
+		for (let attempt = 0; ; attempt++) {
+			this._signal?.throwIfAborted()
+
+			try {
+				const attemptRun = () => this.withTimeout(command, run)
+				return await this.abortable(this._breaker ? this._breaker.execute(command, attemptRun) : attemptRun())
+			} catch (error) {
+				if (attempt >= retries || this._signal?.aborted || error instanceof CircuitOpenError) {
+					throw error
+				}
+
+				await this.abortable(sleep(this.backoff(attempt)))
+			}
+		}
+	}
+
+	/**
+	 * Wraps a storage driver so each of its commands goes through the policy.
+	 * The subscriptions and the connection itself are left unguarded.
+	 *
+	 * @param driver - The storage driver.
+	 * @returns The guarded driver.
+	 */
+	public wrap(driver: StorageDriver): StorageDriver {
+		return {
+			get: (key) => this.execute('get', true, () => driver.get(key)),
+			getBuffer: (key) => this.execute('getBuffer', true, () => driver.getBuffer(key)),
+			mget: (...keys) => this.execute('mget', true, () => driver.mget(...keys)),
+			set: (key, value, ...options) => this.execute('set', false, () => driver.set(key, value, ...options)),
+			del: (...keys) => this.execute('del', false, () => driver.del(...keys)),
+			exists: (key) => this.execute('exists', true, () => driver.exists(key)),
+			expire: (key, seconds) => this.execute('expire', false, () => driver.expire(key, seconds)),
+			ttl: (key) => this.execute('ttl', true, () => driver.ttl(key)),
+			pttl: (key) => this.execute('pttl', true, () => driver.pttl(key)),
+			incr: (key) => this.execute('incr', false, () => driver.incr(key)),
+			decr: (key) => this.execute('decr', false, () => driver.decr(key)),
+			keys: (pattern) => this.execute('keys', true, () => driver.keys(pattern)),
+			scan: (cursor, ...options) => this.execute('scan', true, () => driver.scan(cursor, ...options)),
+			send: (command, args) => this.execute('send', false, () => driver.send(command, args)),
+			publish: (channel, message) => this.execute('publish', false, () => driver.publish(channel, message)),
+			subscribe: (channel, listener) => driver.subscribe(channel, listener),
+			unsubscribe: (channel) => driver.unsubscribe(channel),
+			duplicate: () => driver.duplicate(),
+			close: () => driver.close(),
+		}
+	}
+
+	/**
+	 * Rejects an attempt that did not reply within the timeout.
+	 */
+	protected withTimeout<T>(command: string, run: () => Promise<T>): Promise<T> {
+		if (this._timeout <= 0) {
+			return run()
+		}
+
+		let timer: ReturnType<typeof setTimeout> | undefined
+
+		return Promise.race([
+			run(),
+			new Promise<never>((resolve, reject) => {
+				timer = setTimeout(() => reject(new CommandTimeoutError(command, this._timeout)), this._timeout)
+			}),
+		]).finally(() => clearTimeout(timer))
+	}
+
+	/**
+	 * Rejects with the reason of the signal as soon as it aborts, without waiting for the promise.
+	 */
+	protected abortable<T>(promise: Promise<T>): Promise<T> {
+		const signal = this._signal
+
+		if (!signal) {
+			return promise
+		}
+
+		let onAbort: (() => void) | undefined
+
+		return Promise.race([
+			promise,
+			new Promise<never>((resolve, reject) => {
+				onAbort = () => reject(signal.reason)
+				signal.addEventListener('abort', onAbort, { once: true })
+			}),
+		]).finally(() => signal.removeEventListener('abort', onAbort!))
+	}
+
+	/**
+	 * Gets the delay in milliseconds before a retry, doubled on each attempt up to the maximum,
+	 * and drawn at random up to that value with the jitter.
+	 */
+	protected backoff(attempt: number): number {
+		const { minDelay, maxDelay, jitter } = this._retry!
+		const delay = Math.min(maxDelay, minDelay * 2 ** attempt)
+
+		return jitter ? Math.random() * delay : delay
+	}
+}
@@ -0,0 +1,136 @@
+import { CacheXSError, EncryptionError } from './errors'
+import { EncryptionOptions } from './types/EncryptionOptions'
+import { SerializedValue } from './types/Serializer'
+
+/**
+ * The marker and version of the encrypted payloads.
+ */
+const PREFIX = 'cxe1'
+
+/**
+ * The length in bytes of the AES-GCM initialization vectors.
+ */
+const IV_LENGTH = 12
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * Encrypts the serialized payloads with AES-256-GCM through Web Crypto.
+ *
+ * Every payload is stored as `cxe1:<key id>:<t|b>:<base64 of the IV and the ciphertext>`, where `t` and `b`
+ * tell whether the serializer produced text or bytes. The key of the payload in Redis is authenticated along with it,
+ * so a payload copied under another key fails to decrypt.
+ */
+export default class Encryptor {
+	/**
+	 * The imported keys by ID, imported on first use.
+	 */
+	protected _keys = new Map<string, Promise<CryptoKey>>()
+
+	/**
+	 * The ID of the key encrypting the new payloads.
+	 */
+	protected _currentKeyId: string
+
+	/**
+	 * Whether the payloads that are not encrypted are returned as is.
+	 */
+	protected _allowPlaintext: boolean
+
+	/**
+	 * Constructs a new encryptor.
+	 *
+	 * @param options - The keys, the ID of the current key and whether plaintext payloads are accepted.
+	 * @throws {CacheXSError} If a key is not 32 bytes long, its ID contains a colon, or the current key is missing.
+	 */
+	constructor({ keys, currentKeyId, allowPlaintext = false }: EncryptionOptions) {
+		for (const [keyId, key] of Object.entries(keys)) {
+			const bytes = new Uint8Array(typeof key === 'string' ? Buffer.from(key, 'base64') : key)
+
+			if (keyId.length === 0 || keyId.includes(':')) {
+				throw new CacheXSError(
+					`CacheXS -> The encryption key ID "${keyId}" must be non-empty and without colons`
+				)
+			}
+
+			if (bytes.length !== 32) {
+				throw new CacheXSError(
+					`CacheXS -> The encryption key "${keyId}" must be 32 bytes long, got ${bytes.length}`
+				)
+			}
+
+			this._keys.set(keyId, crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']))
+		}
+
+		if (!this._keys.has(currentKeyId)) {
+			throw new CacheXSError(`CacheXS -> The current encryption key "${currentKeyId}" is missing from the keys`)
+		}
+
+		this._currentKeyId = currentKeyId
+		this._allowPlaintext = allowPlaintext
+	}
+
+	/**
+	 * Encrypts a payload with the current key.
+	 *
+	 * @param payload - The serialized payload.
+	 * @param keyWithNamespace - The key the payload is stored under, authenticated along with it.
+	 * @returns A Promise that resolves to the encrypted payload.
+	 */
+	public async encrypt(payload: SerializedValue, keyWithNamespace: string): Promise<string> {
+		const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+		const format = typeof payload === 'string' ? 't' : 'b'
+		const ciphertext = await crypto.subtle.encrypt(
+			{ name: 'AES-GCM', iv, additionalData: encoder.encode(keyWithNamespace) },
+			await (this._keys.get(this._currentKeyId) as Promise<CryptoKey>),
+			typeof payload === 'string' ? encoder.encode(payload) : new Uint8Array(payload)
+		)
+
+		const data = Buffer.concat([iv, new Uint8Array(ciphertext)]).toString('base64')
+
+		return `${PREFIX}:${this._currentKeyId}:${format}:${data}`
+	}
+
+	/**
+	 * Decrypts a payload with the key it was encrypted with.
+	 *
+	 * @param payload - The encrypted payload read from Redis.
+	 * @param keyWithNamespace - The key the payload is stored under.
+	 * @returns A Promise that resolves to the serialized payload.
+	 * @throws {EncryptionError} If the payload was tampered with, its key is unknown or it is not encrypted.
+	 */
+	public async decrypt(payload: SerializedValue, keyWithNamespace: string): Promise<SerializedValue> {
+		const text = typeof payload === 'string' ? payload : decoder.decode(payload)
+
+		if (!text.startsWith(`${PREFIX}:`)) {
+			if (this._allowPlaintext || /^-?\d+$/.test(text)) {
+				return payload
+			}
+
+			throw new EncryptionError(keyWithNamespace, 'the value is not encrypted')
+		}
+
+		const [, keyId, format, data = ''] = text.split(':')
+		const key = this._keys.get(keyId)
+
+		if (!key) {
+			throw new EncryptionError(keyWithNamespace, `the key "${keyId}" is unknown`)
+		}
+
+		const bytes = new Uint8Array(Buffer.from(data, 'base64'))
+		let plaintext: ArrayBuffer
+
+		try {
+			plaintext = await crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv: bytes.subarray(0, IV_LENGTH), additionalData: encoder.encode(keyWithNamespace) },
+				await key,
+				bytes.subarray(IV_LENGTH)
+			)
+		} catch (error) {
+			throw new EncryptionError(keyWithNamespace, 'the value was tampered with', { cause: error })
+		}
+
+		return format === 'b' ? new Uint8Array(plaintext) : decoder.decode(plaintext)
+	}
+}
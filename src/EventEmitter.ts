@@ -0,0 +1,72 @@
+/**
+ * A minimal typed event emitter, mapping each event name to the type of its payload.
+ *
+ * Unlike the Node.js emitter, an `error` event without listeners is not thrown.
+ */
+export default class EventEmitter<Events extends Record<string, unknown>> {
+	/**
+	 * The listeners of each event, in the order they were added.
+	 */
+	protected _listeners: { [E in keyof Events]?: Set<(payload: Events[E]) => unknown> } = {}
+
+	/**
+	 * Adds a listener for an event.
+	 *
+	 * @param event - The name of the event.
+	 * @param listener - The function called with the payload of the event.
+	 * @returns A function removing the listener.
+	 */
+	public on<E extends keyof Events>(event: E, listener: (payload: Events[E]) => unknown): () => void {
+		const listeners = this._listeners[event] ?? new Set()
+		listeners.add(listener)
+		this._listeners[event] = listeners
+
+		return () => this.off(event, listener)
+	}
+
+	/**
+	 * Adds a listener called only for the next occurrence of an event.
+	 *
+	 * @param event - The name of the event.
+	 * @param listener - The function called with the payload of the event.
+	 * @returns A function removing the listener.
+	 */
+	public once<E extends keyof Events>(event: E, listener: (payload: Events[E]) => unknown): () => void {
+		const off = this.on(event, (payload) => {
+			off()
+			return listener(payload)
+		})
+
+		return off
+	}
+
+	/**
+	 * Removes a listener of an event.
+	 *
+	 * @param event - The name of the event.
+	 * @param listener - The listener to remove.
+	 */
+	public off<E extends keyof Events>(event: E, listener: (payload: Events[E]) => unknown): void {
+		this._listeners[event]?.delete(listener)
+	}
+
+	/**
+	 * Gets the listeners of an event.
+	 *
+	 * @param event - The name of the event.
+	 * @returns A copy of the listeners, in the order they were added.
+	 */
+	public listeners<E extends keyof Events>(event: E): ((payload: Events[E]) => unknown)[] {
+		return [...(this._listeners[event] ?? [])]
+	}
+
+	/**
+	 * Checks whether an event has listeners, so building its payload can be skipped.
+	 *
+	 * @param event - The name of the event.
+	 * @returns True if the event has at least one listener.
+	 */
+	public hasListeners(event: keyof Events): boolean {
+		return (this._listeners[event]?.size ?? 0) > 0
+	}
+}
@@ -0,0 +1,100 @@
+import { EXTEND_LOCK_SCRIPT, RELEASE_LOCK_SCRIPT } from './scripts'
+import { StorageDriver } from './types/StorageDriver'
+
+/**
+ * A distributed lock acquired through `CacheXS.lock`, `CacheXS.tryLock` or `CacheXS.withLock`.
+ *
+ * The lock is identified by a random owner token, so it can only be released or extended by its owner.
+ */
+export default class Lock {
+	/**
+	 * Aborted when the lock is released, or when it was lost because it could not be extended.
+	 */
+	protected _controller = new AbortController()
+
+	/**
+	 * Constructs a new lock handle.
+	 *
+	 * @param _redisClient - The storage driver the lock was acquired on.
+	 * @param _key - The lock key, already prefixed with the namespace.
+	 * @param _token - The owner token stored as the lock value.
+	 * @param _ttl - The time to live of the lock in milliseconds.
+	 */
+	constructor(
+		protected _redisClient: StorageDriver,
+		protected _key: string,
+		protected _token: string,
+		protected _ttl: number
+	) {}
+
+	/**
+	 * Releases the lock if it is still owned by this handle.
+	 *
+	 * @returns A Promise that resolves to true if the lock was released, false if it was already expired or taken over.
+	 *
+	 * @example
+	 * const lock = await cache.lock("jobs:import");
+	 * await lock.release();
+	 */
+	public async release(): Promise<boolean> {
+		const released = await this._redisClient.send('EVAL', [RELEASE_LOCK_SCRIPT, '1', this._key, this._token])
+		this._controller.abort()
+		return released === 1
+	}
+
+	/**
+	 * Resets the time to live of the lock if it is still owned by this handle.
+	 *
+	 * @param ttl - The new time to live in milliseconds, defaults to the one the lock was acquired with.
+	 * @returns A Promise that resolves to true if the lock was extended, false if it was lost.
+	 *
+	 * @example
+	 * const lock = await cache.lock("jobs:import", { ttl: 5000 });
+	 * await lock.extend(10000);
+	 */
+	public async extend(ttl: number = this._ttl): Promise<boolean> {
+		const extended = await this._redisClient.send('EVAL', [
+			EXTEND_LOCK_SCRIPT,
+			'1',
+			this._key,
+			this._token,
+			String(ttl),
+		])
+
+		if (extended !== 1) {
+			this._controller.abort()
+			return false
+		}
+
+		this._ttl = ttl
+		return true
+	}
+
+	/**
+	 * Gets the lock key, prefixed with the namespace.
+	 */
+	public get key(): string {
+		return this._key
+	}
+
+	/**
+	 * Gets the owner token of the lock.
+	 */
+	public get token(): string {
+		return this._token
+	}
+
+	/**
+	 * Gets the time to live of the lock in milliseconds.
+	 */
+	public get ttl(): number {
+		return this._ttl
+	}
+
+	/**
+	 * Gets a signal aborted once the lock is released or lost, useful to stop work that must not outlive the lock.
+	 */
+	public get signal(): AbortSignal {
+		return this._controller.signal
+	}
+}
@@ -0,0 +1,145 @@
+type LruItem<V> = {
+	value: V
+	size: number
+	expiresAt: number
+}
+
+/**
+ * A size-bounded, least recently used in-memory cache with per-item expiration, used as the L1 tier of CacheXS.
+ */
+export default class LruCache<V> {
+	/**
+	 * The cached items, ordered from the least to the most recently used.
+	 */
+	protected _items = new Map<string, LruItem<V>>()
+
+	/**
+	 * The sum of the sizes of the cached items.
+	 */
+	protected _bytes = 0
+
+	/**
+	 * Incremented on every write or eviction, so readers can detect changes made while they were waiting on Redis.
+	 */
+	protected _version = 0
+
+	/**
+	 * Constructs a new LRU cache.
+	 *
+	 * @param _maxEntries - The maximum number of items.
+	 * @param _maxBytes - The maximum sum of the item sizes.
+	 * @param _now - The clock returning the current time in milliseconds.
+	 */
+	constructor(
+		protected _maxEntries: number,
+		protected _maxBytes: number,
+		protected _now: () => number = Date.now
+	) {}
+
+	/**
+	 * Gets an item and marks it as the most recently used, or returns undefined if it is missing or expired.
+	 */
+	public get(key: string): V | undefined {
+		const item = this._items.get(key)
+
+		if (item === undefined) {
+			return undefined
+		}
+
+		if (item.expiresAt <= this._now()) {
+			this.remove(key, item)
+			return undefined
+		}
+
+		this._items.delete(key)
+		this._items.set(key, item)
+		return item.value
+	}
+
+	/**
+	 * Stores an item, evicting the least recently used ones while the limits are exceeded.
+	 *
+	 * @param key - The key of the item.
+	 * @param value - The value of the item.
+	 * @param ttl - The time to live of the item in milliseconds.
+	 * @param size - The size of the item, counted against the maximum bytes.
+	 */
+	public set(key: string, value: V, ttl: number, size: number): void {
+		this.delete(key)
+
+		if (ttl <= 0 || size > this._maxBytes) {
+			return
+		}
+
+		this._items.set(key, { value, size, expiresAt: this._now() + ttl })
+		this._bytes += size
+
+		for (const [oldestKey, oldestItem] of this._items) {
+			if (this._items.size <= this._maxEntries && this._bytes <= this._maxBytes) {
+				break
+			}
+
+			this.remove(oldestKey, oldestItem)
+		}
+	}
+
+	/**
+	 * Removes an item.
+	 */
+	public delete(key: string): void {
+		const item = this._items.get(key)
+		this._version++
+
+		if (item !== undefined) {
+			this.remove(key, item)
+		}
+	}
+
+	/**
+	 * Removes every item whose key matches the regular expression.
+	 */
+	public deleteMatching(pattern: RegExp): void {
+		this._version++
+
+		for (const [key, item] of this._items) {
+			if (pattern.test(key)) {
+				this.remove(key, item)
+			}
+		}
+	}
+
+	/**
+	 * Removes every item.
+	 */
+	public clear(): void {
+		this._version++
+		this._items.clear()
+		this._bytes = 0
+	}
+
+	/**
+	 * Gets the number of items, including the expired ones not evicted yet.
+	 */
+	public get size(): number {
+		return this._items.size
+	}
+
+	/**
+	 * Gets the sum of the item sizes.
+	 */
+	public get bytes(): number {
+		return this._bytes
+	}
+
+	/**
+	 * Gets the current version, changed by every write or eviction.
+	 */
+	public get version(): number {
+		return this._version
+	}
+
+	protected remove(key: string, item: LruItem<V>): void {
+		this._items.delete(key)
+		this._bytes -= item.size
+	}
+}
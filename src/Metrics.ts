@@ -0,0 +1,128 @@
+import { MetricsSnapshot, NamespaceMetrics, OperationMetrics } from './types/MetricsSnapshot'
+
+import type CacheXS from './index'
+
+const DEFAULT_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1]
+
+type OperationCounters = { count: number; sum: number; buckets: number[] }
+type NamespaceCounters = Omit<NamespaceMetrics, 'hitRatio' | 'operations'> & {
+	operations: Map<string, OperationCounters>
+}
+
+/**
+ * Tracks the counters and the latency histograms of a cache, by namespace, from its events and operation durations.
+ */
+export default class Metrics {
+	/**
+	 * The counters of each namespace.
+	 */
+	protected _namespaces = new Map<string, NamespaceCounters>()
+
+	/**
+	 * The sorted upper bounds in seconds of the latency histogram buckets.
+	 */
+	protected _buckets: number[]
+
+	/**
+	 * Constructs a new metrics registry.
+	 *
+	 * @param buckets - The upper bounds in seconds of the latency histogram buckets.
+	 */
+	constructor(buckets: number[] = DEFAULT_BUCKETS) {
+		this._buckets = [...buckets].sort((a, b) => a - b)
+	}
+
+	/**
+	 * Counts the hits, misses, sets, deletes and errors fired by a cache.
+	 *
+	 * @param cache - The cache to listen to.
+	 * @returns A function removing the listeners.
+	 */
+	public listen(cache: CacheXS): () => void {
+		const offs = [
+			cache.on('hit', ({ namespace }) => this.namespace(namespace).hits++),
+			cache.on('miss', ({ namespace }) => this.namespace(namespace).misses++),
+			cache.on('set', ({ namespace }) => this.namespace(namespace).sets++),
+			cache.on('delete', ({ namespace, keys }) => (this.namespace(namespace).deletes += keys.length)),
+			cache.on('error', ({ namespace }) => this.namespace(namespace).errors++),
+		]
+
+		return () => offs.forEach((off) => off())
+	}
+
+	/**
+	 * Records the duration of a completed operation in its latency histogram.
+	 *
+	 * @param namespace - The namespace of the operation.
+	 * @param operation - The name of the operation.
+	 * @param duration - The duration of the operation in milliseconds.
+	 */
+	public observe(namespace: string, operation: string, duration: number): void {
+		const operations = this.namespace(namespace).operations
+		let counters = operations.get(operation)
+
+		if (!counters) {
+			counters = { count: 0, sum: 0, buckets: this._buckets.map(() => 0) }
+			operations.set(operation, counters)
+		}
+
+		const seconds = duration / 1000
+		counters.count++
+		counters.sum += seconds
+
+		const index = this._buckets.findIndex((le) => seconds <= le)
+
+		if (index >= 0) {
+			counters.buckets[index]++
+		}
+	}
+
+	/**
+	 * Copies the current metrics, with cumulative histogram buckets.
+	 *
+	 * @returns The metrics of each namespace.
+	 */
+	public snapshot(): MetricsSnapshot {
+		const snapshot: MetricsSnapshot = {}
+
+		for (const [namespace, { operations, ...counters }] of this._namespaces) {
+			const reads = counters.hits + counters.misses
+			const operationMetrics: Record<string, OperationMetrics> = {}
+
+			for (const [operation, { count, sum, buckets }] of operations) {
+				let cumulative = 0
+				operationMetrics[operation] = {
+					count,
+					sum,
+					buckets: this._buckets.map((le, index) => ({ le, count: (cumulative += buckets[index]) })),
+				}
+			}
+
+			snapshot[namespace] = {
+				...counters,
+				hitRatio: reads > 0 ? counters.hits / reads : 0,
+				operations: operationMetrics,
+			}
+		}
+
+		return snapshot
+	}
+
+	/**
+	 * Resets every counter and histogram.
+	 */
+	public reset(): void {
+		this._namespaces.clear()
+	}
+
+	protected namespace(namespace: string): NamespaceCounters {
+		let counters = this._namespaces.get(namespace)
+
+		if (!counters) {
+			counters = { hits: 0, misses: 0, sets: 0, deletes: 0, errors: 0, operations: new Map() }
+			this._namespaces.set(namespace, counters)
+		}
+
+		return counters
+	}
+}
@@ -0,0 +1,129 @@
+import { PipelineOperation } from './types/PipelineOperation'
+import { SetOptions } from './types/SetOptions'
+
+/**
+ * A chainable list of commands created through `CacheXS.pipeline` or `CacheXS.transaction`.
+ *
+ * The commands are only sent when `exec` is called, and the results are typed in the order the commands were queued.
+ *
+ * @example
+ * const [, views] = await cache.transaction().set('post:1', post).increment('post:1:views').exec();
+ */
+export default class Pipeline<R extends unknown[] = []> {
+	/**
+	 * The queued commands.
+	 */
+	protected _operations: PipelineOperation[] = []
+
+	/**
+	 * Constructs a new pipeline.
+	 *
+	 * @param _execute - Sends the queued commands and resolves to their results.
+	 */
+	constructor(protected _execute: (operations: PipelineOperation[]) => Promise<unknown[]>) {}
+
+	/**
+	 * Queues a `set` command.
+	 *
+	 * @param key - The key to associate with the value.
+	 * @param value - The value to be stored in the cache.
+	 * @param options - The expiration time in seconds, or the set options, defaults to the expiration time of the cache.
+	 * @returns The pipeline, with 'OK' appended to its results.
+	 */
+	public set<T>(key: string, value: T, options?: number | SetOptions): Pipeline<[...R, 'OK']> {
+		return this.queue({ type: 'set', key, value, options })
+	}
+
+	/**
+	 * Queues a `setForever` command.
+	 *
+	 * @param key - The key to associate with the value.
+	 * @param value - The value to be stored in the cache.
+	 * @param options - Optional settings for the cache entry, only `l1` and `tags` are used.
+	 * @returns The pipeline, with 'OK' appended to its results.
+	 */
+	public setForever<T>(key: string, value: T, options: Pick<SetOptions, 'l1' | 'tags'> = {}): Pipeline<[...R, 'OK']> {
+		return this.queue({ type: 'setForever', key, value, options })
+	}
+
+	/**
+	 * Queues a `delete` command.
+	 *
+	 * @param key - The key of the cache entry to delete.
+	 * @returns The pipeline, with whether the key existed appended to its results.
+	 */
+	public delete(key: string): Pipeline<[...R, boolean]> {
+		return this.queue({ type: 'delete', key })
+	}
+
+	/**
+	 * Queues an `increment` command.
+	 *
+	 * @param key - The key to increment.
+	 * @returns The pipeline, with the new value appended to its results.
+	 */
+	public increment(key: string): Pipeline<[...R, number]> {
+		return this.queue({ type: 'increment', key })
+	}
+
+	/**
+	 * Queues a `decrement` command.
+	 *
+	 * @param key - The key to decrement.
+	 * @returns The pipeline, with the new value appended to its results.
+	 */
+	public decrement(key: string): Pipeline<[...R, number]> {
+		return this.queue({ type: 'decrement', key })
+	}
+
+	/**
+	 * Queues an `expire` command.
+	 *
+	 * @param key - The key to set the expiration time for.
+	 * @param expiresIn - The expiration time in seconds.
+	 * @returns The pipeline, with whether the key existed appended to its results.
+	 */
+	public expire(key: string, expiresIn: number): Pipeline<[...R, boolean]> {
+		return this.queue({ type: 'expire', key, expiresIn })
+	}
+
+	/**
+	 * Queues an `expireNow` command.
+	 *
+	 * @param key - The key to expire.
+	 * @returns The pipeline, with whether the key existed appended to its results.
+	 */
+	public expireNow(key: string): Pipeline<[...R, boolean]> {
+		return this.queue({ type: 'expireNow', key })
+	}
+
+	/**
+	 * Sends the queued commands.
+	 *
+	 * @returns A Promise that resolves to the results of the commands, in the order they were queued.
+	 *
+	 * @example
+	 * const [deleted, count] = await cache.pipeline().delete('draft').increment('posts').exec();
+	 */
+	public async exec(): Promise<R> {
+		if (this._operations.length === 0) {
+			return [] as unknown as R
+		}
+
+		return (await this._execute(this._operations)) as R
+	}
+
+	/**
+	 * Gets the number of queued commands.
+	 *
+	 * @returns The number of queued commands.
+	 */
+	public get length(): number {
+		return this._operations.length
+	}
+
+	protected queue<N extends unknown[]>(operation: PipelineOperation): Pipeline<N> {
+		this._operations.push(operation)
+		return this as unknown as Pipeline<N>
+	}
+}
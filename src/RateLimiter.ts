@@ -0,0 +1,180 @@
+import { CacheXSError } from './errors'
+import {
+	FIXED_WINDOW_SCRIPT,
+	SLIDING_WINDOW_COUNTER_SCRIPT,
+	SLIDING_WINDOW_LOG_SCRIPT,
+	TOKEN_BUCKET_SCRIPT,
+} from './scripts'
+import { RateLimiterOptions } from './types/RateLimiterOptions'
+import { RateLimitResult } from './types/RateLimitResult'
+
+import type CacheXS from './index'
+
+const SCRIPTS = {
+	'fixed-window': FIXED_WINDOW_SCRIPT,
+	'sliding-window-log': SLIDING_WINDOW_LOG_SCRIPT,
+	'sliding-window-counter': SLIDING_WINDOW_COUNTER_SCRIPT,
+	'token-bucket': TOKEN_BUCKET_SCRIPT,
+}
+
+/**
+ * A rate limiter created through `CacheXS.rateLimiter`, counting the hits of each key atomically in Redis.
+ *
+ * Every algorithm runs as a single Lua script using the clock of the Redis server,
+ * so the limit holds across processes and the counters always expire.
+ */
+export default class RateLimiter {
+	/**
+	 * The algorithm counting the hits.
+	 */
+	protected _algorithm: Required<RateLimiterOptions>['algorithm']
+
+	/**
+	 * The maximum number of hits per window, or the capacity of the bucket.
+	 */
+	protected _limit: number
+
+	/**
+	 * The window length in seconds.
+	 */
+	protected _window: number
+
+	/**
+	 * Constructs a new rate limiter.
+	 *
+	 * @param _cache - The cache instance the counters are stored with, under its namespace.
+	 * @param options - The algorithm, the limit and the window of the rate limiter.
+	 */
+	constructor(
+		protected _cache: CacheXS,
+		{ algorithm = 'fixed-window', limit, window }: RateLimiterOptions
+	) {
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new CacheXSError(`CacheXS -> The rate limit must be a positive integer, got ${limit}`)
+		}
+
+		if (!(window > 0)) {
+			throw new CacheXSError(`CacheXS -> The rate limit window must be positive, got ${window}`)
+		}
+
+		this._algorithm = algorithm
+		this._limit = limit
+		this._window = window
+	}
+
+	/**
+	 * Counts hits for a key, only if they fit in its limit.
+	 *
+	 * @param key - The key identifying the client, such as a user id or an IP address.
+	 * @param cost - The number of hits to count (default: 1).
+	 * @returns A Promise that resolves to whether the hits are allowed, along with the state of the limit.
+	 *
+	 * @example
+	 * const limiter = cache.rateLimiter({ limit: 100, window: 60 });
+	 * const result = await limiter.consume(`api:${userId}`);
+	 *
+	 * if (!result.allowed) {
+	 *   console.log(`Retry in ${result.retryAfter}ms`);
+	 * }
+	 */
+	public async consume(key: string, cost: number = 1): Promise<RateLimitResult> {
+		if (!Number.isInteger(cost) || cost < 1 || cost > this._limit) {
+			throw new CacheXSError(
+				`CacheXS -> The rate limit cost must be an integer from 1 to ${this._limit}, got ${cost}`
+			)
+		}
+
+		const keyName = await this.keyName(key)
+		const windowMs = String(Math.round(this._window * 1000))
+		const args = [SCRIPTS[this._algorithm], '1', keyName, String(this._limit), windowMs, String(cost)]
+
+		if (this._algorithm === 'sliding-window-log') {
+			args.push(crypto.randomUUID())
+		}
+
+		const reply = (await this._cache.driver.send('EVAL', args)) as [number, number, number, number]
+		const [allowed, remaining, resetAt, retryAfter] = reply
+
+		const result = { allowed: allowed === 1, limit: this._limit, remaining, resetAt, retryAfter }
+
+		this._cache.log('debug', `Rate Limit (${result.allowed ? 'Allowed' : 'Limited'})`, {
+			operation: 'rateLimit',
+			key: keyName,
+			count: remaining,
+		})
+
+		return result
+	}
+
+	/**
+	 * Resets the limit of a key, forgetting its previous hits.
+	 *
+	 * @param key - The key identifying the client.
+	 * @returns A Promise that resolves when the limit is reset.
+	 *
+	 * @example
+	 * await limiter.reset(`login:${email}`);
+	 */
+	public async reset(key: string): Promise<void> {
+		await this._cache.driver.del(await this.keyName(key))
+	}
+
+	/**
+	 * Maps a result to the standard `RateLimit-*` HTTP headers, along with `Retry-After` when the hit is limited.
+	 *
+	 * @param result - The result of `consume`.
+	 * @returns The headers, with the durations in seconds.
+	 *
+	 * @example
+	 * const result = await limiter.consume(`api:${userId}`);
+	 * response.headers = { ...response.headers, ...limiter.headers(result) };
+	 */
+	public headers(result: RateLimitResult): Record<string, string> {
+		const headers: Record<string, string> = {
+			'RateLimit-Limit': String(result.limit),
+			'RateLimit-Remaining': String(result.remaining),
+			'RateLimit-Reset': String(Math.max(Math.ceil((result.resetAt - Date.now()) / 1000), 0)),
+			'RateLimit-Policy': `${result.limit};w=${this._window}`,
+		}
+
+		if (!result.allowed) {
+			headers['Retry-After'] = String(Math.ceil(result.retryAfter / 1000))
+		}
+
+		return headers
+	}
+
+	/**
+	 * Gets the algorithm counting the hits.
+	 *
+	 * @returns The algorithm counting the hits.
+	 */
+	public get algorithm(): Required<RateLimiterOptions>['algorithm'] {
+		return this._algorithm
+	}
+
+	/**
+	 * Gets the maximum number of hits per window.
+	 *
+	 * @returns The maximum number of hits per window.
+	 */
+	public get limit(): number {
+		return this._limit
+	}
+
+	/**
+	 * Gets the window length in seconds.
+	 *
+	 * @returns The window length in seconds.
+	 */
+	public get window(): number {
+		return this._window
+	}
+
+	/**
+	 * Gets the key of the counters, under the current generation of a versioned namespace.
+	 */
+	protected keyName(key: string): Promise<string> {
+		return this._cache.resolveKey(`ratelimit:${this._algorithm}:${key}`)
+	}
+}
@@ -0,0 +1,83 @@
+import { CacheXSError } from './errors'
+import { CacheEvictOptions } from './types/CacheEvictOptions'
+import { WrapOptions } from './types/WrapOptions'
+
+import type CacheXS from './index'
+
+type AsyncMethod<Args extends unknown[], R> = (...args: Args) => Promise<R>
+
+/**
+ * Caches the results of a method with `CacheXS.wrap`, keyed by its arguments.
+ * Concurrent calls with the same key share a single call of the method.
+ *
+ * @param cache - The cache instance the results are stored with.
+ * @param options - The key builder, the expiration and the tags of the results.
+ * @returns The method decorator.
+ *
+ * @example
+ * class UserService {
+ *   @Cached(cache, { key: (id: number) => `user:${id}`, ttl: 3600 })
+ *   async findUser(id: number): Promise<User> {
+ *     return db.users.find(id);
+ *   }
+ * }
+ */
+export const Cached = <Args extends unknown[], R>(cache: CacheXS, options: WrapOptions<Args>) => {
+	return (
+		_target: object,
+		propertyKey: string | symbol,
+		descriptor: TypedPropertyDescriptor<AsyncMethod<Args, R>>
+	): void => {
+		const method = descriptor.value
+
+		if (!method) {
+			throw new CacheXSError(`CacheXS -> @Cached can only decorate methods, "${String(propertyKey)}" is not one`)
+		}
+
+		descriptor.value = cache.wrap(method, options)
+	}
+}
+
+/**
+ * Deletes cached keys and invalidates tags once a method resolves, typically the one updating the cached data.
+ *
+ * @param cache - The cache instance the keys are stored with.
+ * @param options - The builder of the keys to delete and the tags to invalidate.
+ * @returns The method decorator.
+ *
+ * @example
+ * class UserService {
+ *   @CacheEvict(cache, { key: (id: number) => `user:${id}`, tags: ['users'] })
+ *   async updateUser(id: number, changes: Partial<User>): Promise<void> {
+ *     await db.users.update(id, changes);
+ *   }
+ * }
+ */
+export const CacheEvict = <Args extends unknown[], R>(cache: CacheXS, { key, tags = [] }: CacheEvictOptions<Args>) => {
+	return (
+		_target: object,
+		propertyKey: string | symbol,
+		descriptor: TypedPropertyDescriptor<AsyncMethod<Args, R>>
+	): void => {
+		const method = descriptor.value
+
+		if (!method) {
+			throw new CacheXSError(
+				`CacheXS -> @CacheEvict can only decorate methods, "${String(propertyKey)}" is not one`
+			)
+		}
+
+		descriptor.value = async function (this: unknown, ...args: Args): Promise<R> {
+			const result = await method.apply(this, args)
+			const keys = key ? [key(...args)].flat() : []
+			const evictedTags = typeof tags === 'function' ? tags(...args) : tags
+
+			await Promise.all([
+				keys.length > 0 ? cache.deleteMany(keys) : null,
+				evictedTags.length > 0 ? cache.invalidateTags(evictedTags) : null,
+			])
+
+			return result
+		}
+	}
+}
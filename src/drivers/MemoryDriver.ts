@@ -0,0 +1,777 @@
+import {
+	EXTEND_LOCK_SCRIPT,
+	FIXED_WINDOW_SCRIPT,
+	INVALIDATE_TAGS_SCRIPT,
+	RELEASE_LOCK_SCRIPT,
+	SLIDING_WINDOW_COUNTER_SCRIPT,
+	SLIDING_WINDOW_LOG_SCRIPT,
+	TAG_KEY_SCRIPT,
+	TOKEN_BUCKET_SCRIPT,
+	TRANSACTION_SCRIPT,
+} from '../scripts'
+import { MemoryDriverOptions } from '../types/MemoryDriverOptions'
+import { SerializedValue } from '../types/Serializer'
+import { StorageDriver } from '../types/StorageDriver'
+import { globToRegExp } from '../utils'
+
+type Listener = (message: string, channel: string) => void
+
+type Entry = { expiresAt: number | null; sequence: number } & (
+	| { type: 'string'; value: SerializedValue }
+	| { type: 'set'; value: Set<string> }
+	| { type: 'hash'; value: Map<string, string> }
+	| { type: 'zset'; value: Map<string, number> }
+)
+
+/**
+ * The keyspace and the pub/sub channels, shared by a driver and its duplicates.
+ * Each key is numbered in creation order, so the `SCAN` cursors survive the deletions made while iterating.
+ */
+type MemoryStore = {
+	entries: Map<string, Entry>
+	channels: Map<string, Set<Listener>>
+	sequence: number
+}
+
+/**
+ * A script receives its arguments as text, and also as sent, so the binary payloads of the values reach the storage intact.
+ */
+type Script = (keys: string[], argv: string[], values: SerializedValue[]) => unknown
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+/**
+ * An in-process storage driver implementing the Redis commands and scripts used by CacheXS,
+ * so the whole API runs without a Redis server, in tests or offline.
+ *
+ * Keys expire lazily against the injected clock, and `SCAN`, `KEYS`, `NX` sets, counters, tag indexes, locks,
+ * transactions, rate limiters and pub/sub behave as they do on Redis.
+ *
+ * @example
+ * const cache = new CacheXS({ driver: new MemoryDriver() });
+ * await cache.set('user:1', user, 60);
+ */
+export default class MemoryDriver implements StorageDriver {
+	/**
+	 * The clock returning the current time in milliseconds.
+	 */
+	protected _now: () => number
+
+	/**
+	 * The keyspace and the channels, shared with the duplicates of this driver.
+	 */
+	protected _store: MemoryStore = { entries: new Map(), channels: new Map(), sequence: 0 }
+
+	/**
+	 * The listeners subscribed through this driver, by channel.
+	 */
+	protected _subscriptions = new Map<string, Set<Listener>>()
+
+	/**
+	 * The JavaScript versions of the Lua scripts of CacheXS, by script source.
+	 */
+	protected _scripts = new Map<string, Script>([
+		[RELEASE_LOCK_SCRIPT, (keys, argv) => this.releaseLock(keys, argv)],
+		[EXTEND_LOCK_SCRIPT, (keys, argv) => this.extendLock(keys, argv)],
+		[TAG_KEY_SCRIPT, (keys, argv) => this.tagKey(keys, argv)],
+		[INVALIDATE_TAGS_SCRIPT, (keys) => this.invalidateTags(keys)],
+		[TRANSACTION_SCRIPT, (keys, argv, values) => this.transaction(keys, values)],
+		[FIXED_WINDOW_SCRIPT, (keys, argv) => this.fixedWindow(keys, argv)],
+		[SLIDING_WINDOW_LOG_SCRIPT, (keys, argv) => this.slidingWindowLog(keys, argv)],
+		[SLIDING_WINDOW_COUNTER_SCRIPT, (keys, argv) => this.slidingWindowCounter(keys, argv)],
+		[TOKEN_BUCKET_SCRIPT, (keys, argv) => this.tokenBucket(keys, argv)],
+	])
+
+	/**
+	 * Constructs a new in-memory driver with an empty keyspace.
+	 *
+	 * @param options - The clock of the driver.
+	 */
+	constructor({ now = Date.now }: MemoryDriverOptions = {}) {
+		this._now = now
+	}
+
+	public async get(key: string): Promise<string | null> {
+		return this.call('GET', key) as string | null
+	}
+
+	public async getBuffer(key: string): Promise<Uint8Array | null> {
+		const entry = this.read(key, 'string')
+		return entry ? this.toBytes(entry.value) : null
+	}
+
+	public async mget(...keys: string[]): Promise<(string | null)[]> {
+		return this.call('MGET', ...keys) as (string | null)[]
+	}
+
+	public async set(key: string, value: SerializedValue, ...options: string[]): Promise<'OK' | string | null> {
+		return this.call('SET', key, value, ...options) as 'OK' | string | null
+	}
+
+	public async del(...keys: string[]): Promise<number> {
+		return this.call('DEL', ...keys) as number
+	}
+
+	public async exists(key: string): Promise<boolean> {
+		return this.call('EXISTS', key) === 1
+	}
+
+	public async expire(key: string, seconds: number): Promise<number> {
+		return this.call('EXPIRE', key, String(seconds)) as number
+	}
+
+	public async ttl(key: string): Promise<number> {
+		return this.call('TTL', key) as number
+	}
+
+	public async pttl(key: string): Promise<number> {
+		return this.call('PTTL', key) as number
+	}
+
+	public async incr(key: string): Promise<number> {
+		return this.call('INCR', key) as number
+	}
+
+	public async decr(key: string): Promise<number> {
+		return this.call('DECR', key) as number
+	}
+
+	public async keys(pattern: string): Promise<string[]> {
+		return this.call('KEYS', pattern) as string[]
+	}
+
+	public async scan(cursor: string | number, ...options: (string | number)[]): Promise<[string, string[]]> {
+		return this.call('SCAN', String(cursor), ...options.map(String)) as [string, string[]]
+	}
+
+	public async send(command: string, args: string[]): Promise<unknown> {
+		return this.call(command, ...args)
+	}
+
+	public async publish(channel: string, message: string): Promise<number> {
+		return this.call('PUBLISH', channel, message) as number
+	}
+
+	public async subscribe(channel: string, listener: Listener): Promise<number> {
+		for (const listeners of [this._subscriptions, this._store.channels]) {
+			const channelListeners = listeners.get(channel) ?? new Set()
+			channelListeners.add(listener)
+			listeners.set(channel, channelListeners)
+		}
+
+		return this._subscriptions.size
+	}
+
+	public async unsubscribe(channel: string): Promise<void> {
+		const listeners = this._subscriptions.get(channel) ?? new Set()
+		const channelListeners = this._store.channels.get(channel)
+
+		listeners.forEach((listener) => channelListeners?.delete(listener))
+		this._subscriptions.delete(channel)
+	}
+
+	/**
+	 * Creates another driver sharing the keyspace and the channels of this one, like a second Redis connection.
+	 *
+	 * @returns A Promise that resolves to the new driver.
+	 */
+	public async duplicate(): Promise<MemoryDriver> {
+		const driver = new MemoryDriver({ now: this._now })
+		driver._store = this._store
+		return driver
+	}
+
+	/**
+	 * Removes the subscriptions of this driver, the keyspace is kept for its duplicates.
+	 */
+	public close(): void {
+		for (const channel of [...this._subscriptions.keys()]) {
+			this.unsubscribe(channel)
+		}
+	}
+
+	/**
+	 * Removes every key, like `FLUSHDB`.
+	 */
+	public flush(): void {
+		this._store.entries.clear()
+	}
+
+	/**
+	 * Runs a command synchronously, with the same arguments and replies as Redis.
+	 *
+	 * @param command - The name of the command, case insensitive.
+	 * @param args - The arguments of the command.
+	 * @returns The reply of the command.
+	 * @throws {Error} If the command is unknown, or its key holds another type of value.
+	 */
+	protected call(command: string, ...args: SerializedValue[]): unknown {
+		const [key, ...rest] = args.map((arg) => (arg instanceof Uint8Array ? decoder.decode(arg) : String(arg)))
+
+		switch (command.toUpperCase()) {
+			case 'GET': {
+				const entry = this.read(key, 'string')
+				return entry ? this.toText(entry.value) : null
+			}
+			case 'MGET':
+				return [key, ...rest].map((item) => {
+					const entry = this.read(item)
+					return entry?.type === 'string' ? this.toText(entry.value) : null
+				})
+			case 'SET':
+				return this.setValue(key, args[1], rest.slice(1))
+			case 'DEL':
+			case 'UNLINK':
+				return [key, ...rest].filter((item) => this.read(item) && this._store.entries.delete(item)).length
+			case 'EXISTS':
+				return [key, ...rest].filter((item) => this.read(item)).length
+			case 'EXPIRE':
+				return this.setExpiry(key, Number(rest[0]) * 1000)
+			case 'PEXPIRE':
+				return this.setExpiry(key, Number(rest[0]))
+			case 'PERSIST': {
+				const entry = this.read(key)
+
+				if (!entry || entry.expiresAt === null) {
+					return 0
+				}
+
+				entry.expiresAt = null
+				return 1
+			}
+			case 'TTL': {
+				const pttl = this.call('PTTL', key) as number
+				return pttl < 0 ? pttl : Math.round(pttl / 1000)
+			}
+			case 'PTTL': {
+				const entry = this.read(key)
+
+				if (!entry) {
+					return -2
+				}
+
+				return entry.expiresAt === null ? -1 : entry.expiresAt - this._now()
+			}
+			case 'INCR':
+				return this.incrementBy(key, 1)
+			case 'DECR':
+				return this.incrementBy(key, -1)
+			case 'INCRBY':
+				return this.incrementBy(key, this.toInteger(rest[0]))
+			case 'KEYS': {
+				const pattern = globToRegExp(key)
+				return this.liveKeys().filter((item) => pattern.test(item))
+			}
+			case 'SCAN':
+				return this.scanKeys(Number(key), rest)
+			case 'SADD': {
+				const entry = this.readOrCreate(key, 'set', () => new Set<string>())
+				const size = entry.value.size
+				rest.forEach((member) => entry.value.add(member))
+				return entry.value.size - size
+			}
+			case 'SMEMBERS':
+				return [...(this.read(key, 'set')?.value ?? [])]
+			case 'HGET':
+				return this.read(key, 'hash')?.value.get(rest[0]) ?? null
+			case 'HMGET': {
+				const entry = this.read(key, 'hash')
+				return rest.map((field) => entry?.value.get(field) ?? null)
+			}
+			case 'HSET': {
+				const entry = this.readOrCreate(key, 'hash', () => new Map<string, string>())
+				let created = 0
+
+				for (let i = 0; i < rest.length; i += 2) {
+					created += entry.value.has(rest[i]) ? 0 : 1
+					entry.value.set(rest[i], rest[i + 1])
+				}
+
+				return created
+			}
+			case 'HINCRBY': {
+				const entry = this.readOrCreate(key, 'hash', () => new Map<string, string>())
+				const value = this.toInteger(entry.value.get(rest[0]) ?? '0') + this.toInteger(rest[1])
+				entry.value.set(rest[0], String(value))
+				return value
+			}
+			case 'HKEYS':
+				return [...(this.read(key, 'hash')?.value.keys() ?? [])]
+			case 'HDEL': {
+				const entry = this.read(key, 'hash')
+				const deleted = rest.filter((field) => entry?.value.delete(field)).length
+				this.deleteIfEmpty(key)
+				return deleted
+			}
+			case 'ZADD': {
+				const entry = this.readOrCreate(key, 'zset', () => new Map<string, number>())
+				let created = 0
+
+				for (let i = 0; i < rest.length; i += 2) {
+					created += entry.value.has(rest[i + 1]) ? 0 : 1
+					entry.value.set(rest[i + 1], Number(rest[i]))
+				}
+
+				return created
+			}
+			case 'ZCARD':
+				return this.read(key, 'zset')?.value.size ?? 0
+			case 'ZRANGE': {
+				const members = this.sortedMembers(key)
+				const start = Number(rest[0]) < 0 ? members.length + Number(rest[0]) : Number(rest[0])
+				const stop = Number(rest[1]) < 0 ? members.length + Number(rest[1]) : Number(rest[1])
+				const range = members.slice(Math.max(start, 0), stop + 1)
+				const withScores = rest[2]?.toUpperCase() === 'WITHSCORES'
+
+				return range.flatMap(([member, score]) => (withScores ? [member, String(score)] : [member]))
+			}
+			case 'ZREMRANGEBYSCORE': {
+				const entry = this.read(key, 'zset')
+				const inRange = (score: number) =>
+					this.inScoreRange(score, rest[0], 'min') && this.inScoreRange(score, rest[1], 'max')
+				const removed = [...(entry?.value ?? [])].filter(([, score]) => inRange(score))
+				removed.forEach(([member]) => entry?.value.delete(member))
+				this.deleteIfEmpty(key)
+				return removed.length
+			}
+			case 'TIME': {
+				const now = this._now()
+				return [String(Math.floor(now / 1000)), String(Math.floor((now % 1000) * 1000))]
+			}
+			case 'PUBLISH': {
+				const listeners = [...(this._store.channels.get(key) ?? [])]
+				listeners.forEach((listener) => queueMicrotask(() => listener(rest[0], key)))
+				return listeners.length
+			}
+			case 'EVAL': {
+				const script = this._scripts.get(key)
+
+				if (!script) {
+					throw new Error('ERR The memory driver only runs the scripts of CacheXS')
+				}
+
+				const keyCount = Number(rest[0])
+				const keys = rest.slice(1, keyCount + 1)
+
+				return this.toScriptReply(script(keys, rest.slice(keyCount + 1), args.slice(keyCount + 2)))
+			}
+			default:
+				throw new Error(`ERR unknown command '${command}'`)
+		}
+	}
+
+	/**
+	 * Stores a string value, with the `EX`, `PX`, `NX`, `XX`, `KEEPTTL` and `GET` options of `SET`.
+	 */
+	protected setValue(key: string, value: SerializedValue, options: string[]): string | null {
+		let expiresAt: number | null = null
+		let condition: 'NX' | 'XX' | null = null
+		let keepTtl = false
+		let returnPrevious = false
+
+		for (let i = 0; i < options.length; i++) {
+			const option = options[i].toUpperCase()
+
+			if (option === 'EX' || option === 'PX') {
+				const amount = Number(options[++i])
+
+				if (!Number.isInteger(amount) || amount <= 0) {
+					throw new Error('ERR invalid expire time in set command')
+				}
+
+				expiresAt = this._now() + (option === 'EX' ? amount * 1000 : amount)
+			} else if (option === 'NX' || option === 'XX') {
+				condition = option
+			} else if (option === 'KEEPTTL') {
+				keepTtl = true
+			} else if (option === 'GET') {
+				returnPrevious = true
+			} else {
+				throw new Error('ERR syntax error')
+			}
+		}
+
+		const existing = this.read(key)
+
+		if (returnPrevious && existing && existing.type !== 'string') {
+			throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value')
+		}
+
+		const previous = existing?.type === 'string' ? this.toText(existing.value) : null
+
+		if ((condition === 'NX' && existing) || (condition === 'XX' && !existing)) {
+			return returnPrevious ? previous : null
+		}
+
+		this.write(key, {
+			type: 'string',
+			value: value instanceof Uint8Array ? new Uint8Array(value) : String(value),
+			expiresAt: keepTtl ? existing?.expiresAt ?? null : expiresAt,
+		})
+
+		return returnPrevious ? previous : 'OK'
+	}
+
+	/**
+	 * Sets the expiration of a key, deleting it when the time to live is not positive.
+	 */
+	protected setExpiry(key: string, ttl: number): number {
+		const entry = this.read(key)
+
+		if (!entry) {
+			return 0
+		}
+
+		if (ttl <= 0) {
+			this._store.entries.delete(key)
+		} else {
+			entry.expiresAt = this._now() + ttl
+		}
+
+		return 1
+	}
+
+	/**
+	 * Adds an amount to an integer value, keeping its expiration.
+	 */
+	protected incrementBy(key: string, amount: number): number {
+		const entry = this.read(key, 'string')
+		const value = (entry ? this.toInteger(this.toText(entry.value)) : 0) + amount
+
+		this.write(key, { type: 'string', value: String(value), expiresAt: entry?.expiresAt ?? null })
+
+		return value
+	}
+
+	/**
+	 * Iterates over the keys in creation order, the cursor being the sequence number of the next key.
+	 */
+	protected scanKeys(cursor: number, options: string[]): [string, string[]] {
+		let pattern: RegExp | null = null
+		let count = 10
+
+		for (let i = 0; i < options.length; i += 2) {
+			const option = options[i].toUpperCase()
+
+			if (option === 'MATCH') {
+				pattern = globToRegExp(options[i + 1])
+			} else if (option === 'COUNT') {
+				count = Math.max(Number(options[i + 1]), 1)
+			}
+		}
+
+		const keys = this.liveKeys().filter((key) => this._store.entries.get(key)!.sequence >= cursor)
+		const batch = keys.slice(0, count)
+		const matched = batch.filter((key) => !pattern || pattern.test(key))
+
+		if (batch.length === keys.length) {
+			return ['0', matched]
+		}
+
+		return [String(this._store.entries.get(batch[batch.length - 1])!.sequence + 1), matched]
+	}
+
+	/**
+	 * Reads an entry, deleting it first when it expired.
+	 *
+	 * @throws {Error} If the entry holds another type of value than the expected one.
+	 */
+	protected read<T extends Entry['type']>(key: string, type?: T): Extract<Entry, { type: T }> | undefined {
+		const entry = this._store.entries.get(key)
+
+		if (entry && entry.expiresAt !== null && entry.expiresAt <= this._now()) {
+			this._store.entries.delete(key)
+			return undefined
+		}
+
+		if (entry && type && entry.type !== type) {
+			throw new Error('WRONGTYPE Operation against a key holding the wrong kind of value')
+		}
+
+		return entry as Extract<Entry, { type: T }> | undefined
+	}
+
+	/**
+	 * Reads an entry of the given type, creating it without expiration when it is missing.
+	 */
+	protected readOrCreate<T extends 'set' | 'hash' | 'zset'>(
+		key: string,
+		type: T,
+		create: () => Extract<Entry, { type: T }>['value']
+	): Extract<Entry, { type: T }> {
+		const existing = this.read(key, type)
+
+		if (existing) {
+			return existing
+		}
+
+		return this.write(key, { type, value: create(), expiresAt: null } as Omit<
+			Extract<Entry, { type: T }>,
+			'sequence'
+		>)
+	}
+
+	/**
+	 * Stores an entry, keeping the sequence number of the key it replaces so the key keeps its place in `SCAN`.
+	 */
+	protected write<T extends Entry>(key: string, entry: Omit<T, 'sequence'>): T {
+		const sequence = this._store.entries.get(key)?.sequence ?? this._store.sequence++
+		const written = { ...entry, sequence } as T
+
+		this._store.entries.set(key, written)
+
+		return written
+	}
+
+	/**
+	 * Deletes a set, hash or sorted set left without members, as Redis does.
+	 */
+	protected deleteIfEmpty(key: string): void {
+		const entry = this.read(key)
+
+		if (entry && entry.type !== 'string' && entry.value.size === 0) {
+			this._store.entries.delete(key)
+		}
+	}
+
+	/**
+	 * Gets the keys that did not expire.
+	 */
+	protected liveKeys(): string[] {
+		return [...this._store.entries.keys()].filter((key) => this.read(key))
+	}
+
+	/**
+	 * Gets the members of a sorted set ordered by score, then by member.
+	 */
+	protected sortedMembers(key: string): [string, number][] {
+		return [...(this.read(key, 'zset')?.value ?? [])].sort(([memberA, scoreA], [memberB, scoreB]) =>
+			scoreA === scoreB ? (memberA < memberB ? -1 : 1) : scoreA - scoreB
+		)
+	}
+
+	/**
+	 * Checks a score against a bound of `ZREMRANGEBYSCORE`, such as `-inf`, `+inf`, `10` or the exclusive `(10`.
+	 */
+	protected inScoreRange(score: number, bound: string, side: 'min' | 'max'): boolean {
+		const exclusive = bound.startsWith('(')
+		const value = Number((exclusive ? bound.slice(1) : bound).replace(/^([+-])?inf$/i, '$1Infinity'))
+
+		if (side === 'min') {
+			return exclusive ? score > value : score >= value
+		}
+
+		return exclusive ? score < value : score <= value
+	}
+
+	/**
+	 * Parses an integer argument or value.
+	 *
+	 * @throws {Error} If the value is not an integer.
+	 */
+	protected toInteger(value: string): number {
+		if (!/^-?\d+$/.test(value)) {
+			throw new Error('ERR value is not an integer or out of range')
+		}
+
+		return Number(value)
+	}
+
+	protected toText(value: SerializedValue): string {
+		return typeof value === 'string' ? value : decoder.decode(value)
+	}
+
+	protected toBytes(value: SerializedValue): Uint8Array {
+		return typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value)
+	}
+
+	/**
+	 * Converts a script result as Redis converts the Lua values: numbers are truncated to integers and false is nil.
+	 */
+	protected toScriptReply(value: unknown): unknown {
+		if (Array.isArray(value)) {
+			return value.map((item) => this.toScriptReply(item))
+		}
+
+		if (typeof value === 'number') {
+			return Math.trunc(value)
+		}
+
+		if (typeof value === 'boolean') {
+			return value ? 1 : null
+		}
+
+		return value
+	}
+
+	protected releaseLock([key]: string[], [token]: string[]): unknown {
+		return this.call('GET', key) === token ? this.call('DEL', key) : 0
+	}
+
+	protected extendLock([key]: string[], [token, ttl]: string[]): unknown {
+		return this.call('GET', key) === token ? this.call('PEXPIRE', key, ttl) : 0
+	}
+
+	protected tagKey(tagKeys: string[], [key, ttl]: string[]): unknown {
+		tagKeys.forEach((tagKey) => this.indexTag(tagKey, key, Number(ttl)))
+
+		return tagKeys.length
+	}
+
+	/**
+	 * Adds a key to the index set of a tag, extending the expiration of the set so it lives as long as its keys.
+	 */
+	protected indexTag(tagKey: string, key: string, ttl: number): void {
+		const existed = this.call('EXISTS', tagKey) === 1
+		this.call('SADD', tagKey, key)
+
+		if (ttl === 0) {
+			this.call('PERSIST', tagKey)
+		} else {
+			const current = this.call('TTL', tagKey) as number
+
+			if (!existed || (current >= 0 && current < ttl)) {
+				this.call('EXPIRE', tagKey, String(ttl))
+			}
+		}
+	}
+
+	protected invalidateTags(tagKeys: string[]): unknown {
+		const result: [number, ...string[]] = [0]
+
+		for (const tagKey of tagKeys) {
+			const members = this.call('SMEMBERS', tagKey) as string[]
+
+			result[0] += members.length > 0 ? (this.call('DEL', ...members) as number) : 0
+			result.push(...members)
+			this.call('DEL', tagKey)
+		}
+
+		return result
+	}
+
+	protected transaction(keys: string[], values: SerializedValue[]): unknown {
+		const replies: unknown[] = []
+		const number = (index: number) => Number(this.toText(values[index]))
+
+		for (let index = 0; index < values.length; ) {
+			const key = keys[number(index) - 1]
+			const count = number(index + 1)
+
+			replies.push(this.call(this.toText(values[index + 2]), key, ...values.slice(index + 3, index + 3 + count)))
+			index += 3 + count
+
+			const [tagCount, ttl] = [number(index), number(index + 1)]
+
+			for (let position = index + 2; position < index + 2 + tagCount; position++) {
+				this.indexTag(keys[number(position) - 1], key, ttl)
+			}
+
+			index += 2 + tagCount
+		}
+
+		return replies
+	}
+
+	protected fixedWindow([key]: string[], argv: string[]): unknown {
+		const now = Math.floor(this._now())
+		const [limit, window, cost] = argv.map(Number)
+		const count = Number(this.call('GET', key) ?? '0')
+		let ttl = this.call('PTTL', key) as number
+
+		if (ttl < 0) {
+			ttl = window
+		}
+
+		if (count + cost > limit) {
+			return [0, Math.max(limit - count, 0), now + ttl, ttl]
+		}
+
+		const incremented = this.call('INCRBY', key, String(cost)) as number
+		this.call('PEXPIRE', key, String(ttl))
+
+		return [1, limit - incremented, now + ttl, 0]
+	}
+
+	protected slidingWindowLog([key]: string[], [limitArgument, windowArgument, costArgument, id]: string[]): unknown {
+		const now = Math.floor(this._now())
+		const [limit, window, cost] = [limitArgument, windowArgument, costArgument].map(Number)
+
+		this.call('ZREMRANGEBYSCORE', key, '-inf', String(now - window))
+		const count = this.call('ZCARD', key) as number
+
+		if (count + cost > limit) {
+			const [, newest] = this.call('ZRANGE', key, '-1', '-1', 'WITHSCORES') as string[]
+			const freeingIndex = String(count + cost - limit - 1)
+			const [, freeing] = this.call('ZRANGE', key, freeingIndex, freeingIndex, 'WITHSCORES') as string[]
+
+			return [0, Math.max(limit - count, 0), Number(newest) + window, Number(freeing) + window - now]
+		}
+
+		for (let i = 1; i <= cost; i++) {
+			this.call('ZADD', key, String(now), `${id}:${i}`)
+		}
+
+		this.call('PEXPIRE', key, String(window))
+
+		return [1, limit - count - cost, now + window, 0]
+	}
+
+	protected slidingWindowCounter([key]: string[], argv: string[]): unknown {
+		const now = Math.floor(this._now())
+		const [limit, window, cost] = argv.map(Number)
+		const index = Math.floor(now / window)
+		const elapsed = now - index * window
+		const current = Number(this.call('HGET', key, String(index)) ?? '0')
+		const previous = Number(this.call('HGET', key, String(index - 1)) ?? '0')
+		const estimated = (previous * (window - elapsed)) / window + current
+		const resetAt = (index + 1) * window
+
+		if (estimated + cost > limit) {
+			// Either the previous window drains enough before this one ends,
+			// or this window becomes the weighted previous one and has to drain in turn
+			const retryAfter =
+				current + cost <= limit
+					? Math.ceil(window - elapsed - ((limit - current - cost) * window) / previous)
+					: window - elapsed + Math.ceil(window - ((limit - cost) * window) / current)
+
+			return [0, Math.max(Math.floor(limit - estimated), 0), resetAt, retryAfter]
+		}
+
+		this.call('HINCRBY', key, String(index), String(cost))
+
+		for (const field of this.call('HKEYS', key) as string[]) {
+			if (Number(field) < index - 1) {
+				this.call('HDEL', key, field)
+			}
+		}
+
+		this.call('PEXPIRE', key, String(window * 2))
+
+		return [1, Math.floor(limit - estimated - cost), resetAt, 0]
+	}
+
+	protected tokenBucket([key]: string[], argv: string[]): unknown {
+		const now = Math.floor(this._now())
+		const [limit, window, cost] = argv.map(Number)
+		const [storedTokens, storedUpdatedAt] = this.call('HMGET', key, 'tokens', 'updatedAt') as (string | null)[]
+		const updatedAt = storedUpdatedAt === null ? now : Number(storedUpdatedAt)
+		let tokens = storedTokens === null ? limit : Number(storedTokens)
+		let retryAfter = 0
+
+		tokens = Math.min(limit, tokens + ((now - updatedAt) * limit) / window)
+
+		if (tokens >= cost) {
+			tokens -= cost
+		} else {
+			retryAfter = Math.ceil(((cost - tokens) * window) / limit)
+		}
+
+		const refill = Math.ceil(((limit - tokens) * window) / limit)
+		this.call('HSET', key, 'tokens', String(tokens), 'updatedAt', String(now))
+		this.call('PEXPIRE', key, String(Math.max(refill, 1)))
+
+		return [retryAfter === 0 ? 1 : 0, Math.floor(tokens), now + refill, retryAfter]
+	}
+}
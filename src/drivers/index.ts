@@ -0,0 +1 @@
+export { default as MemoryDriver } from './MemoryDriver'
@@ -0,0 +1,69 @@
+import { CacheEntry } from './types/CacheEntry'
+
+/**
+ * The property marking a value stored with logical expiry metadata.
+ */
+const ENTRY_MARKER = '__cachexs_entry__'
+
+type EntryEnvelope = {
+	[ENTRY_MARKER]: 1
+	value: unknown
+	freshUntil: number
+	staleUntil: number
+	graceUntil: number
+}
+
+/**
+ * The state of an entry at a given time:
+ * `fresh` before its expiration, `stale` during its stale window, `grace` during the rest of its grace window, `expired` afterwards.
+ */
+export type EntryState = 'fresh' | 'stale' | 'grace' | 'expired'
+
+/**
+ * Wraps a value with its logical expiry timestamps, so it can outlive its expiration time in Redis.
+ */
+export const wrapEntry = (value: unknown, freshUntil: number, staleFor: number, graceFor: number): EntryEnvelope => ({
+	[ENTRY_MARKER]: 1,
+	value,
+	freshUntil,
+	staleUntil: freshUntil + staleFor * 1000,
+	graceUntil: freshUntil + graceFor * 1000,
+})
+
+/**
+ * Converts a deserialized value into a cache entry, reading its logical expiry timestamps when it was wrapped.
+ */
+export const unwrapEntry = <T>(data: unknown, now: number): CacheEntry<T> => {
+	if (typeof data === 'object' && data !== null && ENTRY_MARKER in data) {
+		const envelope = data as EntryEnvelope
+
+		return {
+			value: envelope.value as T,
+			isStale: now >= envelope.freshUntil,
+			freshUntil: envelope.freshUntil,
+			staleUntil: envelope.staleUntil,
+			graceUntil: envelope.graceUntil,
+		}
+	}
+
+	return { value: data as T, isStale: false, freshUntil: null, staleUntil: null, graceUntil: null }
+}
+
+/**
+ * Gets the state of an entry at the given time.
+ */
+export const entryState = (entry: CacheEntry<unknown>, now: number): EntryState => {
+	if (entry.freshUntil === null || now < entry.freshUntil) {
+		return 'fresh'
+	}
+
+	if (entry.staleUntil !== null && now < entry.staleUntil) {
+		return 'stale'
+	}
+
+	if (entry.graceUntil !== null && now < entry.graceUntil) {
+		return 'grace'
+	}
+
+	return 'expired'
+}
@@ -0,0 +1,13 @@
+import CacheXSError from './CacheXSError'
+
+/**
+ * Thrown by the assertion helpers of `cachexs/testing` when the cache does not hold what the test expects.
+ */
+export default class CacheAssertionError extends CacheXSError {
+	constructor(
+		public readonly key: string,
+		message: string
+	) {
+		super(`CacheXS -> ${message}`)
+	}
+}
@@ -0,0 +1,9 @@
+/**
+ * Base class for every error thrown by CacheXS.
+ */
+export default class CacheXSError extends Error {
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options)
+		this.name = new.target.name
+	}
+}
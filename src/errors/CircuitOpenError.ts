@@ -0,0 +1,11 @@
+import CacheXSError from './CacheXSError'
+
+/**
+ * Thrown by the storage commands skipped while the circuit breaker of the `resilience` option is open,
+ * the reads and writes of the cache fall back to a miss or a no-op instead.
+ */
+export default class CircuitOpenError extends CacheXSError {
+	constructor(public readonly retryAt: number) {
+		super(`CacheXS -> The circuit breaker is open, the storage is skipped until ${new Date(retryAt).toISOString()}`)
+	}
+}
@@ -0,0 +1,13 @@
+import CacheXSError from './CacheXSError'
+
+/**
+ * Thrown when a storage command did not reply within the `timeout` of the operation.
+ */
+export default class CommandTimeoutError extends CacheXSError {
+	constructor(
+		public readonly command: string,
+		public readonly timeout: number
+	) {
+		super(`CacheXS -> The ${command} command timed out after ${timeout}ms`)
+	}
+}
@@ -0,0 +1,14 @@
+import CacheXSError from './CacheXSError'
+
+/**
+ * Thrown when a value cannot be decrypted, because it was tampered with, its key is unknown or it is not encrypted.
+ */
+export default class EncryptionError extends CacheXSError {
+	constructor(
+		public readonly key: string,
+		reason: string,
+		options?: ErrorOptions
+	) {
+		super(`CacheXS -> Could not decrypt the value of "${key}": ${reason}`, options)
+	}
+}
@@ -0,0 +1,13 @@
+import CacheXSError from './CacheXSError'
+
+/**
+ * Thrown when a lock could not be acquired, or its result awaited, before the configured timeout.
+ */
+export default class LockTimeoutError extends CacheXSError {
+	constructor(
+		public readonly key: string,
+		public readonly timeout: number
+	) {
+		super(`CacheXS -> Timed out after ${timeout}ms waiting for the lock on "${key}"`)
+	}
+}
@@ -0,0 +1,19 @@
+import { ValidationIssue } from '../types/Validator'
+
+import CacheXSError from './CacheXSError'
+
+/**
+ * Thrown when a value read from or written to the cache does not match its schema.
+ */
+export default class ValidationError extends CacheXSError {
+	constructor(
+		public readonly key: string,
+		public readonly issues: readonly ValidationIssue[]
+	) {
+		super(
+			`CacheXS -> The value of "${key}" does not match its schema: ${issues
+				.map(({ message }) => message)
+				.join(', ')}`
+		)
+	}
+}
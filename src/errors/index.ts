@@ -0,0 +1,7 @@
+export { default as CacheAssertionError } from './CacheAssertionError'
+export { default as CacheXSError } from './CacheXSError'
+export { default as CircuitOpenError } from './CircuitOpenError'
+export { default as CommandTimeoutError } from './CommandTimeoutError'
+export { default as EncryptionError } from './EncryptionError'
+export { default as LockTimeoutError } from './LockTimeoutError'
+export { default as ValidationError } from './ValidationError'
@@ -1,12 +1,159 @@
 import { redis, RedisClient, RedisOptions } from 'bun'
 
+import CacheDefinition from './CacheDefinition'
+import CircuitBreaker from './CircuitBreaker'
+import CommandPolicy from './CommandPolicy'
+import { CacheEvict, Cached } from './decorators'
+import { MemoryDriver } from './drivers'
+import Encryptor from './Encryptor'
+import { entryState, unwrapEntry, wrapEntry } from './entry'
+import {
+	CacheAssertionError,
+	CacheXSError,
+	CircuitOpenError,
+	CommandTimeoutError,
+	EncryptionError,
+	LockTimeoutError,
+	ValidationError,
+} from './errors'
+import EventEmitter from './EventEmitter'
+import Lock from './Lock'
+import { ConsoleLogger } from './loggers'
+import LruCache from './LruCache'
+import Metrics from './Metrics'
+import Pipeline from './Pipeline'
+import { renderPrometheus } from './prometheus'
+import RateLimiter from './RateLimiter'
+import { INVALIDATE_TAGS_SCRIPT, TAG_KEY_SCRIPT, TRANSACTION_SCRIPT } from './scripts'
+import { JsonSerializer, MsgPackSerializer, TaggedSerializer } from './serializers'
+import { CacheDefinitionOptions } from './types/CacheDefinitionOptions'
+import { CacheEntry } from './types/CacheEntry'
+import { CacheEvictOptions } from './types/CacheEvictOptions'
+import { CacheHealth } from './types/CacheHealth'
 import { CacheXSConfig } from './types/CacheXSConfig'
+import { CacheXSBeforeEvents, CacheXSEvents } from './types/CacheXSEvents'
+import { ClearOptions, ClearProgress } from './types/ClearOptions'
+import { ClearResult } from './types/ClearResult'
+import { EncryptionOptions } from './types/EncryptionOptions'
+import { GetOptions } from './types/GetOptions'
+import { InvalidationOptions } from './types/InvalidationOptions'
+import { L1Invalidation } from './types/L1Invalidation'
+import { L1Options } from './types/L1Options'
+import { LockOptions } from './types/LockOptions'
+import { Logger, LogLevel, LogRecord } from './types/Logger'
+import { MemoryDriverOptions } from './types/MemoryDriverOptions'
+import { MetricsOptions } from './types/MetricsOptions'
+import { MetricsSnapshot, NamespaceMetrics, OperationMetrics } from './types/MetricsSnapshot'
+import { OperationOptions } from './types/OperationOptions'
+import { PipelineOperation } from './types/PipelineOperation'
+import { RateLimiterOptions } from './types/RateLimiterOptions'
+import { RateLimitResult } from './types/RateLimitResult'
+import { RememberOptions } from './types/RememberOptions'
+import { CircuitState, CircuitStateChange, ResilienceOptions } from './types/ResilienceOptions'
+import { RetryOptions } from './types/RetryOptions'
+import { ScopeOptions } from './types/ScopeOptions'
+import { SerializedValue, Serializer } from './types/Serializer'
+import { SetIfNotExistsResult } from './types/SetIfNotExistsResult'
+import { SetManyEntry } from './types/SetManyEntry'
+import { SetOptions } from './types/SetOptions'
+import { StorageDriver } from './types/StorageDriver'
+import { TierCounters, TierStats } from './types/TierStats'
+import { InvalidValueBehavior, ValidationOptions } from './types/ValidationOptions'
+import { StandardSchema, StandardSchemaResult, ValidationIssue, Validator } from './types/Validator'
+import { VersioningOptions } from './types/VersioningOptions'
+import { WrapOptions } from './types/WrapOptions'
+import { byteLength, chunk, escapeRegExp, globToRegExp, once, sleep } from './utils'
+import { validate } from './validation'
+
+export {
+	CacheAssertionError,
+	CacheDefinition,
+	Cached,
+	CacheEvict,
+	CacheXSError,
+	CircuitOpenError,
+	CommandTimeoutError,
+	ConsoleLogger,
+	EncryptionError,
+	JsonSerializer,
+	Lock,
+	LockTimeoutError,
+	MemoryDriver,
+	MsgPackSerializer,
+	Pipeline,
+	RateLimiter,
+	renderPrometheus,
+	TaggedSerializer,
+	ValidationError,
+}
+export type {
+	CacheDefinitionOptions,
+	CacheEvictOptions,
+	CacheEntry,
+	CacheHealth,
+	CacheXSBeforeEvents,
+	CacheXSConfig,
+	CacheXSEvents,
+	CircuitState,
+	CircuitStateChange,
+	ClearOptions,
+	ClearProgress,
+	ClearResult,
+	EncryptionOptions,
+	GetOptions,
+	InvalidationOptions,
+	InvalidValueBehavior,
+	L1Invalidation,
+	L1Options,
+	LockOptions,
+	Logger,
+	LogLevel,
+	LogRecord,
+	MemoryDriverOptions,
+	MetricsOptions,
+	MetricsSnapshot,
+	NamespaceMetrics,
+	OperationMetrics,
+	OperationOptions,
+	PipelineOperation,
+	RateLimiterOptions,
+	RateLimitResult,
+	RememberOptions,
+	ResilienceOptions,
+	RetryOptions,
+	ScopeOptions,
+	SerializedValue,
+	Serializer,
+	SetIfNotExistsResult,
+	SetManyEntry,
+	SetOptions,
+	StandardSchema,
+	StandardSchemaResult,
+	StorageDriver,
+	TierCounters,
+	TierStats,
+	ValidationIssue,
+	ValidationOptions,
+	Validator,
+	VersioningOptions,
+	WrapOptions,
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+type GenerationState = { value: number; expiresAt: number; load: Promise<void> | null }
 
 export default class CacheXS {
 	/**
-	 * The Redis connection used by the CacheXS package.
+	 * The storage driver the commands of the cache are sent to, the configured one guarded by the circuit breaker,
+	 * the timeout and the retries when they are enabled.
 	 */
-	protected _redisClient = redis
+	protected _guardedDriver: StorageDriver = redis
+
+	/**
+	 * The Redis connection, the storage driver unless another one is configured.
+	 */
+	protected _redisClient: RedisClient = redis
 
 	/**
 	 * The URL of the Redis server.
@@ -33,6 +180,148 @@ export default class CacheXS {
 	 */
 	protected _enableDebug: boolean
 
+	/**
+	 * The emitter of the events fired after the operations.
+	 */
+	protected _events = new EventEmitter<CacheXSEvents>()
+
+	/**
+	 * The emitter of the events fired before the writes, whose listeners can veto them.
+	 */
+	protected _beforeHooks = new EventEmitter<CacheXSBeforeEvents>()
+
+	/**
+	 * The counters and latency histograms, null when metrics are disabled.
+	 */
+	protected _metrics: Metrics | null = null
+
+	/**
+	 * Removes the event listeners of the metrics.
+	 */
+	protected _stopMetrics: (() => void) | null = null
+
+	/**
+	 * The logger receiving the structured log records, null when logging is disabled.
+	 */
+	protected _logger: Logger | null = null
+
+	/**
+	 * The minimum level of the records passed to the logger.
+	 */
+	protected _logLevel: LogLevel = 'info'
+
+	/**
+	 * Whether the values are redacted from the log records, or a function redacting the records.
+	 */
+	protected _redact: boolean | ((record: LogRecord) => LogRecord) = true
+
+	/**
+	 * What a read does with a cached value that does not match its schema.
+	 */
+	protected _onInvalid: InvalidValueBehavior = 'miss'
+
+	/**
+	 * The serializer used to encode values before storing them and to decode them on read.
+	 */
+	protected _serializer: Serializer
+
+	/**
+	 * Encrypts the serialized payloads before they are stored, or null when encryption is disabled.
+	 */
+	protected _encryptor: Encryptor | null = null
+
+	/**
+	 * The maximum number of keys sent in a single batched command.
+	 */
+	protected _batchSize: number
+
+	/**
+	 * The in-memory L1 tier holding serialized payloads in front of Redis, or null when disabled.
+	 */
+	protected _l1: LruCache<SerializedValue> | null = null
+
+	/**
+	 * The time to live in milliseconds of the L1 entries.
+	 */
+	protected _l1Ttl = 0
+
+	/**
+	 * The hit and miss counters of each cache tier.
+	 */
+	protected _tierStats: TierStats = { l1: { hits: 0, misses: 0 }, l2: { hits: 0, misses: 0 } }
+
+	/**
+	 * Identifies this instance in the invalidation messages, so it can ignore its own ones.
+	 */
+	protected _instanceId = crypto.randomUUID()
+
+	/**
+	 * The pub/sub channel of the L1 invalidation messages, or null when they are disabled.
+	 */
+	protected _invalidationChannel: string | null = null
+
+	/**
+	 * The connection subscribed to the invalidation channel, resolved once the subscription is active.
+	 */
+	protected _subscriber: Promise<StorageDriver | null> | null = null
+
+	/**
+	 * Indicates whether the subscriber connection was opened by this instance and must be closed by it.
+	 */
+	protected _ownsSubscriber = false
+
+	/**
+	 * The versioned-namespace settings, or null when the keys are not versioned.
+	 */
+	protected _versioning: Required<VersioningOptions> | null = null
+
+	/**
+	 * The generation of the namespace embedded in the keys when they are versioned, the timestamp in milliseconds
+	 * after which it is read again from Redis, and its pending read shared by the concurrent operations.
+	 * The children created with `with` share it, so an invalidation through them reaches the parent.
+	 */
+	protected _generation: GenerationState = { value: 0, expiresAt: 0, load: null }
+
+	/**
+	 * The timer of the background sweeper of the previous generations.
+	 */
+	protected _sweeper: ReturnType<typeof setInterval> | null = null
+
+	/**
+	 * The clock returning the current time in milliseconds, used for the expiration of the entries and of the L1 tier.
+	 */
+	protected _now: () => number = Date.now
+
+	/**
+	 * The circuit breaker guarding the storage driver, or null when the `resilience` option is disabled.
+	 */
+	protected _breaker: CircuitBreaker | null = null
+
+	/**
+	 * The errors already reported through the `error` event, shared with the scopes so a failure is reported once.
+	 */
+	protected _reportedErrors = new WeakSet<object>()
+
+	/**
+	 * The storage driver as configured, before the circuit breaker, the timeout and the retries are applied to it.
+	 */
+	protected _driver: StorageDriver = redis
+
+	/**
+	 * The time in milliseconds each storage command may take, 0 to wait indefinitely.
+	 */
+	protected _timeout = 0
+
+	/**
+	 * The signal aborting the storage commands of an instance created with `with`, or null.
+	 */
+	protected _signal: AbortSignal | null = null
+
+	/**
+	 * The retry policy of the idempotent storage commands, or null when the `retry` option is disabled.
+	 */
+	protected _retry: Required<RetryOptions> | null = null
+
 	/**
 	 * Constructs a new instance of the CacheXS class.
 	 * @param {CacheXSConfig} [config] - The configuration options for CacheXS.
@@ -47,22 +336,76 @@ export default class CacheXS {
 	 *   expiresIn: 60,
 	 *   enableDebug: true,
 	 * });
+	 *
+	 * // Create a new instance of CacheXS with a custom serializer
+	 * const cache = new CacheXS({
+	 *   serializer: new MsgPackSerializer(),
+	 * });
+	 *
+	 * // Create a new instance of CacheXS with an in-memory L1 tier kept consistent across instances
+	 * const cache = new CacheXS({
+	 *   l1: { maxEntries: 5000, maxBytes: 10_000_000, ttl: 30 },
+	 *   invalidation: true,
+	 * });
+	 *
+	 * // Create a new instance of CacheXS encrypting the values with AES-256-GCM
+	 * const cache = new CacheXS({
+	 *   encryption: { keys: { '2024-06': process.env.CACHE_KEY }, currentKeyId: '2024-06' },
+	 * });
+	 *
+	 * // Create a new instance of CacheXS whose `clear` only bumps the generation of the namespace
+	 * const cache = new CacheXS({
+	 *   namespace: 'catalog',
+	 *   versioning: { sweepInterval: 60_000 },
+	 * });
 	 */
 	constructor({
+		driver,
 		redisClient,
 		redisUrl,
 		redisOptions,
 		namespace = '',
 		expiresIn = 300,
 		enableDebug = false,
+		serializer = new TaggedSerializer(),
+		l1,
+		invalidation,
+		batchSize = 500,
+		logger,
+		logLevel,
+		redact = true,
+		metrics = false,
+		versioning = false,
+		onInvalid = 'miss',
+		encryption,
+		now = Date.now,
+		resilience = false,
+		timeout = 0,
+		retry = false,
 	}: CacheXSConfig = {}) {
 		this.configureCacheXS({
+			driver,
 			redisClient,
 			redisUrl,
 			redisOptions,
 			namespace,
 			expiresIn,
 			enableDebug,
+			serializer,
+			l1,
+			invalidation,
+			batchSize,
+			logger,
+			logLevel,
+			redact,
+			metrics,
+			versioning,
+			onInvalid,
+			encryption,
+			now,
+			resilience,
+			timeout,
+			retry,
 		})
 	}
 
@@ -103,24 +446,122 @@ export default class CacheXS {
 	 * });
 	 */
 	protected configureCacheXS({
+		driver,
 		redisClient,
 		redisOptions,
 		redisUrl,
 		namespace = '',
 		expiresIn = 300,
 		enableDebug = false,
+		serializer = new TaggedSerializer(),
+		l1,
+		invalidation,
+		batchSize = 500,
+		logger,
+		logLevel,
+		redact = true,
+		metrics = false,
+		versioning = false,
+		onInvalid = 'miss',
+		encryption,
+		now = Date.now,
+		resilience = false,
+		timeout = 0,
+		retry = false,
 	}: CacheXSConfig) {
-		if (redisClient) {
+		if (driver) {
+			this._redisClient = driver instanceof RedisClient ? driver : redisClient ?? redis
+			this._driver = driver
+		} else if (redisClient) {
 			this._redisClient = redisClient
+			this._driver = redisClient
 			this._redisOptions = redisOptions
 		} else {
 			this._redisClient = new RedisClient(redisUrl, redisOptions)
+			this._driver = this._redisClient
 			this._redisUrl = redisUrl
 		}
 
+		this._breaker = null
+
+		if (resilience) {
+			const { failureThreshold = 5, cooldown = 30000, onStateChange } = resilience === true ? {} : resilience
+			this._breaker = new CircuitBreaker(
+				{ failureThreshold, cooldown },
+				(change) => this.reportCircuit(change, onStateChange),
+				now
+			)
+		}
+
+		this._timeout = timeout
+		this._signal = null
+		this._retry = this.retryPolicy(retry)
+		this._guardedDriver = this.guardDriver()
+
 		this._namespace = namespace
 		this._expiresIn = expiresIn
 		this._enableDebug = enableDebug
+		this._logger = logger ?? (enableDebug ? new ConsoleLogger() : null)
+		this._logLevel = logLevel ?? (enableDebug ? 'debug' : 'info')
+		this._redact = redact
+		this._onInvalid = onInvalid
+		this._now = now
+
+		this._stopMetrics?.()
+		this._stopMetrics = null
+		this._metrics = null
+
+		if (metrics) {
+			this._metrics = new Metrics(metrics === true ? undefined : metrics.buckets)
+			this._stopMetrics = this._metrics.listen(this)
+		}
+		this._serializer = serializer
+		this._encryptor = encryption ? new Encryptor(encryption) : null
+		this._batchSize = batchSize
+
+		if (l1) {
+			const { maxEntries = 1000, maxBytes = Number.POSITIVE_INFINITY, ttl = 60 } = l1
+			this._l1 = new LruCache(maxEntries, maxBytes, now)
+			this._l1Ttl = ttl * 1000
+		} else {
+			this._l1 = null
+		}
+
+		this.unsubscribeInvalidations()
+		this._invalidationChannel = null
+
+		if (invalidation) {
+			const { channel = `cachexs:invalidation${namespace ? `:${namespace}` : ''}`, subscriberClient } =
+				invalidation === true ? {} : invalidation
+
+			this._invalidationChannel = channel
+
+			// Instances without an L1 tier only publish, they have nothing to evict
+			if (this._l1) {
+				this._ownsSubscriber = !subscriberClient
+				this._subscriber = this.subscribeInvalidations(channel, subscriberClient)
+			}
+		}
+
+		this.stopSweeper()
+		this._versioning = null
+		this._generation = { value: 0, expiresAt: 0, load: null }
+
+		if (versioning) {
+			const { refreshInterval = 1000, sweepInterval = 0 } = versioning === true ? {} : versioning
+			this._versioning = { refreshInterval, sweepInterval }
+
+			if (sweepInterval > 0) {
+				this._sweeper = setInterval(() => {
+					this.sweep().catch((error) => {
+						this.log('warn', 'Sweep (Failed)', { operation: 'sweep', error })
+						this.reportFailure({ operation: 'sweep' }, error)
+					})
+				}, sweepInterval)
+				// The sweeper must not keep the process alive on its own
+				this._sweeper.unref?.()
+			}
+		}
 	}
 
 	/**
@@ -143,20 +584,132 @@ export default class CacheXS {
 	 * });
 	 */
 	public configure({
+		driver,
 		redisClient,
 		redisOptions,
 		redisUrl,
 		namespace = '',
 		expiresIn = 300,
 		enableDebug = false,
+		serializer = new TaggedSerializer(),
+		l1,
+		invalidation,
+		batchSize = 500,
+		logger,
+		logLevel,
+		redact = true,
+		metrics = false,
+		versioning = false,
+		onInvalid = 'miss',
+		encryption,
+		now = Date.now,
+		resilience = false,
+		timeout = 0,
+		retry = false,
 	}: CacheXSConfig): CacheXS {
-		this.configureCacheXS({ redisClient, redisOptions, redisUrl, namespace, expiresIn, enableDebug })
+		this.configureCacheXS({
+			driver,
+			redisClient,
+			redisOptions,
+			redisUrl,
+			namespace,
+			expiresIn,
+			enableDebug,
+			serializer,
+			l1,
+			invalidation,
+			batchSize,
+			logger,
+			logLevel,
+			redact,
+			metrics,
+			versioning,
+			onInvalid,
+			encryption,
+			now,
+			resilience,
+			timeout,
+			retry,
+		})
 		return this
 	}
 
+	/**
+	 * Creates a lightweight child cache whose keys are nested under the namespace of this instance.
+	 * The child shares the Redis connection, the L1 tier, the events and the metrics of its parent,
+	 * and its `clear`, `scan` and pattern methods only reach its own keys.
+	 * With versioned namespaces the child has its own generation, so clearing the parent does not clear it.
+	 *
+	 * @param name - The name of the scope, appended to the namespace.
+	 * @param overrides - The settings overriding the ones inherited from the parent.
+	 * @returns The child cache.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ namespace: 'app' });
+	 * const users = cache.scope('users', { expiresIn: 3600 });
+	 *
+	 * await users.set('123', user); // stored under "app:users:123"
+	 * await users.clear(); // only deletes the "app:users:*" keys
+	 */
+	public scope(name: string, { expiresIn, serializer, logger, logLevel, redact }: ScopeOptions = {}): CacheXS {
+		if (name.length === 0) {
+			throw new CacheXSError('CacheXS -> The scope name cannot be empty')
+		}
+
+		const child: CacheXS = Object.assign(Object.create(Object.getPrototypeOf(this)), this)
+
+		child._namespace = this._namespace.length > 0 ? `${this._namespace}:${name}` : name
+		child._expiresIn = expiresIn ?? this._expiresIn
+		child._serializer = serializer ?? this._serializer
+		child._logger = logger ?? this._logger
+		child._logLevel = logLevel ?? (logger ? 'info' : this._logLevel)
+		child._redact = redact ?? this._redact
+
+		// The invalidation subscriber of the parent already evicts the shared L1 tier
+		child._subscriber = null
+		child._ownsSubscriber = false
+		child._stopMetrics = null
+		child._sweeper = null
+		child._generation = { value: 0, expiresAt: 0, load: null }
+
+		return child
+	}
+
+	/**
+	 * Creates a lightweight child cache whose storage commands follow other timeout, abort signal and retry settings.
+	 * The child shares the namespace and its generation, the storage, the L1 tier, the events, the metrics and the circuit
+	 * breaker of its parent, so it is cheap enough to be created for a single call.
+	 *
+	 * @param options - The settings overriding the ones inherited from the parent.
+	 * @returns The child cache.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ timeout: 200, retry: true });
+	 *
+	 * const user = await cache.with({ timeout: 50 }).get('user:1');
+	 * await cache.with({ signal: request.signal }).remember('report', buildReport, 60);
+	 */
+	public with({ timeout, signal, retry }: OperationOptions): CacheXS {
+		const child: CacheXS = Object.assign(Object.create(Object.getPrototypeOf(this)), this)
+
+		child._timeout = timeout ?? this._timeout
+		child._signal = signal ?? this._signal
+		child._retry = retry === undefined ? this._retry : this.retryPolicy(retry)
+		child._guardedDriver = child.guardDriver()
+
+		// The parent already owns the subscriber, the metrics listener and the sweeper
+		child._subscriber = null
+		child._ownsSubscriber = false
+		child._stopMetrics = null
+		child._sweeper = null
+
+		return child
+	}
+
 	/**
 	 * Concatenates the given key with the namespace and returns the resulting string.
 	 * If a namespace is set, the key will be prefixed with the namespace followed by a colon.
+	 * With versioned namespaces, the generation of the namespace follows it, as in `myNamespace:v3:myKey`.
 	 * If no namespace is set, the key will be returned as is.
 	 *
 	 * @param key The key to concatenate with the namespace.
@@ -169,12 +722,11 @@ export default class CacheXS {
 	 * console.log(concatenatedKey); // Output: "myNamespace:myKey"
 	 */
 	public concatenateKey(key: string): string {
-		const namespace = this._namespace
-		if (namespace.length === 0) {
+		const namespacePrefix = this.keyPrefix()
+		if (namespacePrefix.length === 0) {
 			return key
 		}
 		// Check if the key already starts with the namespace
-		const namespacePrefix = `${namespace}:`
 		if (key.startsWith(namespacePrefix)) {
 			return key
 		}
@@ -182,568 +734,2979 @@ export default class CacheXS {
 	}
 
 	/**
-	 * Retrieves the value associated with the specified key from the cache.
+	 * Concatenates the given key with the namespace like `concatenateKey`, after reading the current generation
+	 * of a versioned namespace, so the key follows the invalidations made by the other instances.
 	 *
-	 * @param key - The key of the value to retrieve.
-	 * @returns A Promise that resolves to the retrieved value, or null if the key is not found.
+	 * @param key - The key to concatenate with the namespace.
+	 * @returns A Promise that resolves to the concatenated key.
 	 *
 	 * @example
-	 * // Retrieve a string value from the cache
-	 * const stringValue = await cache.get<string>('myKey');
-	 *
-	 * // Retrieve an object value from the cache
-	 * const objectValue = await cache.get<MyObject>('myKey');
+	 * const cache = new CacheXS({ namespace: 'catalog', versioning: true });
+	 * await cache.resolveKey('product:1'); // -> 'catalog:v3:product:1'
 	 */
-	public async get<T>(key: string): Promise<T | null> {
-		const keyWithNamespace = this.concatenateKey(key)
-
-		const value = await this._redisClient.get(keyWithNamespace)
-
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Get -> ${keyWithNamespace}: ${value}`)
-		}
-
-		if (value) {
-			try {
-				const parsedData = JSON.parse(value) as T
-				return parsedData
-			} catch {
-				return value as T
-			}
-		}
+	public async resolveKey(key: string): Promise<string> {
+		await this.syncGeneration()
+		return this.concatenateKey(key)
+	}
 
-		return null
+	/**
+	 * Gets the prefix added to the keys, made of the namespace and of its generation when the keys are versioned.
+	 *
+	 * @returns The prefix, empty when there is neither a namespace nor versioning.
+	 */
+	protected keyPrefix(): string {
+		const generation = this._versioning ? `v${this._generation.value}:` : ''
+		return this._namespace.length > 0 ? `${this._namespace}:${generation}` : generation
 	}
 
 	/**
-	 * Sets a value in the cache.
+	 * Adds a listener for an event fired after an operation.
 	 *
-	 * @template T - The type of the value being set.
-	 * @param {string} key - The key under which to store the value.
-	 * @param {T} value - The value to be stored.
-	 * @param {SetOptions} [options] - Optional settings for the cache entry.
-	 * @returns {Promise<void>} - A Promise that resolves when the value is successfully set in the cache.
+	 * @param event - The name of the event: `hit`, `miss`, `set`, `delete`, `expire`, `clear` or `error`.
+	 * @param listener - The function called with the payload of the event.
+	 * @returns A function removing the listener.
 	 *
 	 * @example
-	 * // Set a string value with default expiration time
-	 * await cache.set('myKey', 'myValue');
-	 *
-	 * // Set an object value with custom expiration time
-	 * await cache.set('myKey', { name: 'John', age: 30 }, { expiresIn: 360 });
+	 * const cache = new CacheXS();
+	 * cache.on('miss', ({ key, duration }) => metrics.increment('cache.miss', { key }));
+	 * cache.on('error', ({ operation, error }) => logger.error(error, operation));
 	 */
-	public async set<T>(key: string, value: T, expiresIn: number = this._expiresIn): Promise<'OK' | null> {
-		const keyWithNamespace = this.concatenateKey(key)
-		let parsedValue: unknown
-
-		if (typeof value === 'object') {
-			parsedValue = JSON.stringify(value)
-		} else {
-			parsedValue = value?.toString() ?? ''
-		}
-
-		const result = await this._redisClient.set(keyWithNamespace, parsedValue, 'EX', expiresIn)
+	public on<E extends keyof CacheXSEvents>(event: E, listener: (payload: CacheXSEvents[E]) => void): () => void {
+		return this._events.on(event, listener)
+	}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Set (For: ${expiresIn} Sec.) -> ${keyWithNamespace}: ${value}`)
-		}
+	/**
+	 * Adds a listener called only for the next occurrence of an event.
+	 *
+	 * @param event - The name of the event.
+	 * @param listener - The function called with the payload of the event.
+	 * @returns A function removing the listener.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * cache.once('clear', () => console.log('The cache was cleared'));
+	 */
+	public once<E extends keyof CacheXSEvents>(event: E, listener: (payload: CacheXSEvents[E]) => void): () => void {
+		return this._events.once(event, listener)
+	}
 
-		return result
+	/**
+	 * Removes a listener added with `on`.
+	 *
+	 * @param event - The name of the event.
+	 * @param listener - The listener to remove.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * cache.off('miss', onMiss);
+	 */
+	public off<E extends keyof CacheXSEvents>(event: E, listener: (payload: CacheXSEvents[E]) => void): void {
+		this._events.off(event, listener)
 	}
 
 	/**
-	 * Sets a value in the cache indefinitely.
+	 * Adds a hook called before every write of the given kind, in the order the hooks were added.
+	 * A hook vetoes the write by returning false, and a `set` hook can replace the `value` of its payload.
 	 *
-	 * @param key - The key to associate with the value.
-	 * @param value - The value to be stored in the cache.
-	 * @returns A promise that resolves when the value is successfully set in the cache.
+	 * @param event - The kind of write: `set` or `delete`.
+	 * @param hook - The function called with the payload of the write, and awaited.
+	 * @returns A function removing the hook.
 	 *
 	 * @example
-	 * // Set a string value in the cache
-	 * await setForever("username", "JohnDoe");
+	 * const cache = new CacheXS();
 	 *
-	 * // Set an object value in the cache
-	 * await cache.setForever("user", { name: "John Doe", age: 30 });
+	 * // Never cache empty results
+	 * cache.before('set', ({ value }) => value !== null);
+	 *
+	 * // Strip the password before caching users
+	 * cache.before('set', (write) => {
+	 *   if (write.key.startsWith('user:')) {
+	 *     write.value = { ...(write.value as User), password: undefined };
+	 *   }
+	 * });
 	 */
-	public async setForever<T>(key: string, value: T): Promise<void> {
-		const keyWithNamespace = this.concatenateKey(key)
-		let parsedValue: unknown
-
-		if (typeof value === 'object' && value !== null) {
-			parsedValue = JSON.stringify(value)
-		} else {
-			parsedValue = value?.toString() ?? ''
-		}
-
-		await this._redisClient.set(keyWithNamespace, parsedValue)
-
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Set (Forever) -> ${keyWithNamespace}: ${value}`)
-		}
+	public before<E extends keyof CacheXSBeforeEvents>(
+		event: E,
+		hook: (payload: CacheXSBeforeEvents[E]) => boolean | void | Promise<boolean | void>
+	): () => void {
+		return this._beforeHooks.on(event, hook)
 	}
 
-	public async setIfNotExists<T>(key: string, value: T, expiresIn: number = this._expiresIn) {
-		const keyWithNamespace = this.concatenateKey(key)
-		const exists = await this.exists(keyWithNamespace)
-
-		if (exists) {
-			return 'EXIST'
-		}
-
-		const result = await this.set(key, value, expiresIn)
-		return result
+	/**
+	 * Gets the hits, misses, sets, deletes and errors counters, and the latency histogram of each operation, by namespace.
+	 * Render them for Prometheus with `renderPrometheus`.
+	 *
+	 * @returns The metrics snapshot, empty when the `metrics` option is disabled.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ namespace: 'users', metrics: true });
+	 * console.log(cache.metrics().users.hitRatio); // Output: 0.92
+	 */
+	public metrics(): MetricsSnapshot {
+		return this._metrics?.snapshot() ?? {}
 	}
 
 	/**
-	 * Retrieves the value associated with the specified key from the cache. If the value does not exist, it sets the value to the provided fallback value and returns it.
-	 * @param key - The key to retrieve or set the value for.
-	 * @param fallbackValue - The value to set if the key does not exist in the cache.
-	 * @param options - Optional settings for setting the value in the cache.
-	 * @returns A Promise that resolves to the retrieved value or the fallback value if the key does not exist.
+	 * Passes a structured record to the configured logger, when its level is enabled.
+	 * The namespace is added to the record, and the value is redacted according to the `redact` option.
+	 *
+	 * @param level - The level of the record.
+	 * @param message - A short description of the operation.
+	 * @param record - The details of the operation.
 	 *
 	 * @example
-	 * // Get the value associated with the key "username" from the cache. If it does not exist, set it to "guest" and return "guest".
-	 * const username = await cache.getOrSet("username", "guest");
+	 * const cache = new CacheXS({ logger: pino(), logLevel: 'debug' });
+	 * cache.log('info', 'Warm Up', { operation: 'warmUp', count: 120 });
 	 */
-	public async getOrSet<T>(key: string, value: T, expiresIn: number = this._expiresIn): Promise<T> {
-		const keyWithNamespace = this.concatenateKey(key)
-
-		const existingValue = await this.get<T>(keyWithNamespace)
-
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Get -> ${keyWithNamespace}: ${existingValue}`)
+	public log(level: LogLevel, message: string, record: Omit<LogRecord, 'namespace'>): void {
+		// Every completed operation logs its duration, which also feeds the latency histograms
+		if (this._metrics && record.duration !== undefined) {
+			this._metrics.observe(this._namespace, record.operation, record.duration)
 		}
 
-		if (existingValue) {
-			return existingValue
+		if (!this._logger || LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this._logLevel)) {
+			return
 		}
 
-		await this.set(key, value, expiresIn)
+		let logRecord: LogRecord = { ...record, namespace: this._namespace }
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Set (For: ${expiresIn} Sec.) -> ${keyWithNamespace}: ${existingValue}`)
+		if (typeof this._redact === 'function') {
+			logRecord = this._redact(logRecord)
+		} else if (this._redact && logRecord.value !== undefined) {
+			logRecord.value = '[Redacted]'
 		}
 
-		return value
+		this._logger[level](logRecord, `CacheXS -> ${message}`)
 	}
 
 	/**
 	 * Retrieves the value associated with the specified key from the cache.
-	 * If the value does not exist, sets the specified fallback value in the cache and returns it.
 	 *
-	 * @param key - The key to retrieve or set in the cache.
-	 * @param fallbackValue - The value to set in the cache if the key does not exist.
-	 * @returns A Promise that resolves to the retrieved value or the fallback value.
+	 * @param key - The key of the value to retrieve.
+	 * @param options - Optional settings for the lookup.
+	 * @returns A Promise that resolves to the retrieved value, or null if the key is not found.
 	 *
 	 * @example
-	 * const cache = new CacheXS();
-	 * const value = await cache.getOrSetForever("myKey", "defaultValue");
-	 * console.log(value); // Output: "defaultValue" (if the key does not exist in the cache)
-	 */
-	public async getOrSetForever<T>(key: string, fallbackValue: T): Promise<T> {
-		const keyWithNamespace = this.concatenateKey(key)
-
-		const value = await this.get<T>(keyWithNamespace)
-
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Get -> ${keyWithNamespace}: ${value}`)
-		}
-
-		if (value) {
+	 * // Retrieve a string value from the cache
+	 * const stringValue = await cache.get<string>('myKey');
+	 *
+	 * // Retrieve an object value from the cache
+	 * const objectValue = await cache.get<MyObject>('myKey');
+	 *
+	 * // Bypass the in-memory L1 tier
+	 * const freshValue = await cache.get<MyObject>('myKey', { l1: false });
+	 *
+	 * // Check the shape of the value with a Standard Schema (Zod, Valibot, ArkType...) or a type guard
+	 * const user = await cache.get('user:1', { schema: UserSchema, onInvalid: 'throw' });
+	 *
+	 * // Give up after 50 milliseconds, or once the request is aborted
+	 * const session = await cache.get('session:1', { timeout: 50, signal: request.signal });
+	 */
+	public async get<T>(
+		key: string,
+		options: GetOptions & ValidationOptions<T> & OperationOptions = {}
+	): Promise<T | null> {
+		const entry = await this.readEntry<T>('get', key, options)
+		return entry ? entry.value : null
+	}
+
+	/**
+	 * Retrieves the value associated with the specified key from the cache, along with its expiry metadata.
+	 * Values stored with a `staleFor` window are still returned after their expiration time, flagged as stale.
+	 *
+	 * @param key - The key of the value to retrieve.
+	 * @param options - Optional settings for the lookup.
+	 * @returns A Promise that resolves to the cache entry, or null if the key is not found or fully expired.
+	 *
+	 * @example
+	 * await cache.set('myKey', 'myValue', { expiresIn: 60, staleFor: 300 });
+	 * const entry = await cache.getEntry<string>('myKey');
+	 * console.log(entry); // Output: { value: 'myValue', isStale: false, freshUntil: 1700000060000, ... }
+	 */
+	public async getEntry<T>(
+		key: string,
+		options: GetOptions & ValidationOptions<T> & OperationOptions = {}
+	): Promise<CacheEntry<T> | null> {
+		return this.readEntry<T>('getEntry', key, options)
+	}
+
+	/**
+	 * Reads a cache entry, reporting the events, the logs and the metrics of the read under the public operation.
+	 *
+	 * @param operation - The name of the public operation reading the entry.
+	 * @param key - The key of the value to retrieve.
+	 * @param options - Optional settings for the lookup.
+	 * @returns A Promise that resolves to the cache entry, or null if the key is not found or fully expired.
+	 */
+	protected async readEntry<T>(
+		operation: string,
+		key: string,
+		options: GetOptions & ValidationOptions<T> & OperationOptions = {}
+	): Promise<CacheEntry<T> | null> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.readEntry<T>(operation, key, rest)
+		}
+
+		const { l1 = true, ...validation } = options
+
+		return this.failOpen({ operation, key }, null, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+
+			let entry = await this.lookup<T>(keyWithNamespace, l1)
+
+			if (entry && validation.schema && this.isServable(entry)) {
+				const validated = await this.validateValue(key, keyWithNamespace, entry.value, validation)
+				entry = validated ? { ...entry, value: validated.value } : null
+			}
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Get', {
+				operation,
+				key: keyWithNamespace,
+				hit: entry !== null,
+				value: entry?.value,
+				duration,
+			})
+
+			if (entry && this.isServable(entry)) {
+				this.emit('hit', { operation, key, value: entry.value, isStale: entry.isStale, duration })
+				return entry
+			}
+
+			this.emit('miss', { operation, key, duration })
+			return null
+		})
+	}
+
+	/**
+	 * Retrieves the values associated with the specified keys from the cache, using batched `MGET` commands.
+	 *
+	 * @param keys - The keys of the values to retrieve.
+	 * @param options - Optional settings for the lookup.
+	 * @returns A Promise that resolves to the values in the same order as the keys, with null for the missing ones.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const [john, jane] = await cache.getMany<User>(['user:1', 'user:2']);
+	 *
+	 * // Treat the values that do not match the schema as missing
+	 * const users = await cache.getMany(['user:1', 'user:2'], { schema: UserSchema });
+	 */
+	public async getMany<T>(
+		keys: string[],
+		options: GetOptions & ValidationOptions<T> & OperationOptions = {}
+	): Promise<(T | null)[]> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.getMany<T>(keys, rest)
+		}
+
+		const { l1 = true, ...validation } = options
+
+		return this.failOpen(
+			{ operation: 'getMany' },
+			keys.map(() => null),
+			async () => {
+				const startedAt = performance.now()
+				await this.syncGeneration()
+				const keysWithNamespace = keys.map((key) => this.concatenateKey(key))
+				let entries = await this.lookupMany<T>(keysWithNamespace, l1)
+
+				if (validation.schema) {
+					entries = await Promise.all(
+						entries.map(async (entry, index) => {
+							if (!entry || !this.isServable(entry)) {
+								return entry
+							}
+
+							const validated = await this.validateValue(
+								keys[index],
+								keysWithNamespace[index],
+								entry.value,
+								validation
+							)
+							return validated ? { ...entry, value: validated.value } : null
+						})
+					)
+				}
+				const duration = performance.now() - startedAt
+
+				this.log('debug', 'Get Multiple', {
+					operation: 'getMany',
+					keys: keysWithNamespace,
+					count: entries.filter((entry) => entry !== null).length,
+					duration,
+				})
+
+				return entries.map((entry, index) => {
+					if (entry && this.isServable(entry)) {
+						this.emit('hit', {
+							operation: 'getMany',
+							key: keys[index],
+							value: entry.value,
+							isStale: entry.isStale,
+							duration,
+						})
+						return entry.value
+					}
+
+					this.emit('miss', { operation: 'getMany', key: keys[index], duration })
+					return null
+				})
+			}
+		)
+	}
+
+	/**
+	 * Sets a value in the cache.
+	 *
+	 * @template T - The type of the value being set.
+	 * @param {string} key - The key under which to store the value.
+	 * @param {T} value - The value to be stored.
+	 * @param {SetOptions} [options] - Optional settings for the cache entry.
+	 * @returns {Promise<void>} - A Promise that resolves when the value is successfully set in the cache.
+	 *
+	 * @example
+	 * // Set a string value with default expiration time
+	 * await cache.set('myKey', 'myValue');
+	 *
+	 * // Set an object value with custom expiration time
+	 * await cache.set('myKey', { name: 'John', age: 30 }, { expiresIn: 360 });
+	 *
+	 * // Keep serving the value as stale for 5 minutes after it expired
+	 * await cache.set('myKey', 'myValue', { expiresIn: 60, staleFor: 300 });
+	 *
+	 * // Tag the value so it can be deleted along with the other values of the user
+	 * await cache.set('user:1:profile', profile, { expiresIn: 360, tags: ['user:1'] });
+	 *
+	 * // Throw a ValidationError instead of caching a value that does not match the schema
+	 * await cache.set('user:1', user, { schema: UserSchema });
+	 */
+	public async set<T>(
+		key: string,
+		value: T,
+		options: number | (SetOptions & Pick<ValidationOptions<T>, 'schema'> & OperationOptions) = this._expiresIn
+	): Promise<'OK' | null> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.set(key, value, rest)
+		}
+
+		return this.failOpen({ operation: 'set', key }, null, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const setOptions = this.resolveSetOptions(options)
+			const { expiresIn, staleFor, graceFor } = setOptions
+			value = await this.validateWrite(key, value, typeof options === 'number' ? undefined : options.schema)
+
+			const write = { operation: 'set', key, value: value as unknown, ttl: expiresIn }
+
+			if (!(await this.runBeforeHooks('set', write))) {
+				return null
+			}
+
+			const payload = await this.serializeEntry(keyWithNamespace, write.value, setOptions)
+
+			// Keep the value in Redis until the end of its stale and grace windows
+			const retention = expiresIn + Math.max(staleFor, graceFor)
+			await this.tagKey(keyWithNamespace, setOptions.tags, retention)
+			const result = await this._guardedDriver.set(keyWithNamespace, payload, 'EX', String(retention))
+			this.writeL1(keyWithNamespace, payload, retention * 1000, setOptions.l1)
+			this.publishInvalidation({ type: 'keys', keys: [keyWithNamespace] })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Set', {
+				operation: 'set',
+				key: keyWithNamespace,
+				ttl: expiresIn,
+				value: write.value,
+				duration,
+			})
+			this.emit('set', { ...write, duration })
+
+			return result === 'OK' ? result : null
+		})
+	}
+
+	/**
+	 * Sets a value in the cache indefinitely.
+	 *
+	 * @param key - The key to associate with the value.
+	 * @param value - The value to be stored in the cache.
+	 * @param options - Optional settings for the cache entry, only `l1` and `tags` are used.
+	 * @returns A promise that resolves when the value is successfully set in the cache.
+	 *
+	 * @example
+	 * // Set a string value in the cache
+	 * await setForever("username", "JohnDoe");
+	 *
+	 * // Set an object value in the cache
+	 * await cache.setForever("user", { name: "John Doe", age: 30 });
+	 *
+	 * // Set a tagged value in the cache
+	 * await cache.setForever("user:1:settings", settings, { tags: ["user:1"] });
+	 */
+	public async setForever<T>(
+		key: string,
+		value: T,
+		options: Pick<SetOptions, 'l1' | 'tags'> & OperationOptions = {}
+	): Promise<void> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.setForever(key, value, rest)
+		}
+
+		const { l1 = true, tags = [] } = options
+
+		return this.failOpen({ operation: 'setForever', key }, undefined, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const write = { operation: 'setForever', key, value: value as unknown, ttl: null }
+
+			if (!(await this.runBeforeHooks('set', write))) {
+				return
+			}
+
+			const payload = await this.serializeEntry(keyWithNamespace, write.value, null)
+
+			await this.tagKey(keyWithNamespace, tags, 0)
+			await this._guardedDriver.set(keyWithNamespace, payload)
+			this.writeL1(keyWithNamespace, payload, Number.POSITIVE_INFINITY, l1)
+			this.publishInvalidation({ type: 'keys', keys: [keyWithNamespace] })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Set Forever', {
+				operation: 'setForever',
+				key: keyWithNamespace,
+				value: write.value,
+				duration,
+			})
+			this.emit('set', { ...write, duration })
+		})
+	}
+
+	/**
+	 * Sets multiple values in the cache, sending the writes in pipelined batches.
+	 *
+	 * @param entries - The entries to store, as a list of entries or as an object mapping the keys to their values.
+	 * @param options - The expiration time in seconds, or the set options shared by the entries.
+	 * @returns A Promise that resolves when every value is set in the cache.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * await cache.setMany({ 'user:1': john, 'user:2': jane }, 360);
+	 *
+	 * // Override the shared options for some entries
+	 * await cache.setMany([
+	 *   { key: 'user:1', value: john },
+	 *   { key: 'user:2', value: jane, options: { expiresIn: 60, tags: ['user:2'] } },
+	 * ]);
+	 */
+	public async setMany<T>(
+		entries: SetManyEntry<T>[] | Record<string, T>,
+		options: number | (SetOptions & OperationOptions) = this._expiresIn
+	): Promise<void> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.setMany(entries, rest)
+		}
+
+		return this.failOpen({ operation: 'setMany' }, undefined, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const list = Array.isArray(entries)
+				? entries
+				: Object.entries(entries).map(([key, value]) => ({ key, value, options: undefined }))
+
+			const writes = []
+
+			for (const { key, value, options: entryOptions } of list) {
+				const setOptions = this.resolveSetOptions(entryOptions ?? options)
+				const retention = setOptions.expiresIn + Math.max(setOptions.staleFor, setOptions.graceFor)
+				const write = { operation: 'setMany', key, value: value as unknown, ttl: setOptions.expiresIn }
+
+				if (await this.runBeforeHooks('set', write)) {
+					const keyWithNamespace = this.concatenateKey(key)
+
+					writes.push({
+						write,
+						keyWithNamespace,
+						payload: await this.serializeEntry(keyWithNamespace, write.value, setOptions),
+						retention,
+						setOptions,
+					})
+				}
+			}
+
+			// Commands issued without awaiting each other are pipelined by the Redis client
+			for (const batch of chunk(writes, this._batchSize)) {
+				await Promise.all(
+					batch.map(async ({ keyWithNamespace, payload, retention, setOptions }) => {
+						await this.tagKey(keyWithNamespace, setOptions.tags, retention)
+						await this._guardedDriver.set(keyWithNamespace, payload, 'EX', String(retention))
+						this.writeL1(keyWithNamespace, payload, retention * 1000, setOptions.l1)
+					})
+				)
+			}
+
+			if (writes.length > 0) {
+				this.publishInvalidation({ type: 'keys', keys: writes.map(({ keyWithNamespace }) => keyWithNamespace) })
+			}
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Set Multiple', {
+				operation: 'setMany',
+				keys: writes.map(({ keyWithNamespace }) => keyWithNamespace),
+				duration,
+			})
+			writes.forEach(({ write }) => this.emit('set', { ...write, duration }))
+		})
+	}
+
+	/**
+	 * Sets a value in the cache only if the key does not already exist, atomically with `SET NX`.
+	 *
+	 * @param key - The key to associate with the value.
+	 * @param value - The value to be stored in the cache.
+	 * @param options - The expiration time in seconds, or the set options.
+	 * @returns A Promise that resolves to whether the value was created, along with the stored or the existing value.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const { created, value } = await cache.setIfNotExists('myKey', 'myValue', 360);
+	 * console.log(created, value); // Output: true 'myValue' (if the key does not exist in the cache)
+	 */
+	public async setIfNotExists<T>(
+		key: string,
+		value: T,
+		options: number | (SetOptions & OperationOptions) = this._expiresIn
+	): Promise<SetIfNotExistsResult<T>> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.setIfNotExists(key, value, rest)
+		}
+
+		return this.failOpen({ operation: 'setIfNotExists', key }, { created: false, value }, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const setOptions = this.resolveSetOptions(options)
+			const { created, value: result, isStale } = await this.setIfAbsent(keyWithNamespace, value, setOptions)
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Set If Not Exists', {
+				operation: 'setIfNotExists',
+				key: keyWithNamespace,
+				hit: !created,
+				value: result,
+				duration,
+			})
+			this.emitConditionalWrite('setIfNotExists', key, { created, value: result, isStale }, setOptions, duration)
+
+			return { created, value: result }
+		})
+	}
+
+	/**
+	 * Retrieves the value associated with the specified key from the cache. If the value does not exist, it sets the value to the provided fallback value and returns it.
+	 * Stored falsy values such as `0`, `false` or `''` are returned as is.
+	 *
+	 * @param key - The key to retrieve or set the value for.
+	 * @param value - The value to set if the key does not exist in the cache.
+	 * @param options - The expiration time in seconds, or the set options.
+	 * @returns A Promise that resolves to the retrieved value or the fallback value if the key does not exist.
+	 *
+	 * @example
+	 * // Get the value associated with the key "username" from the cache. If it does not exist, set it to "guest" and return "guest".
+	 * const username = await cache.getOrSet("username", "guest");
+	 *
+	 * // Replace the stored value when it does not match the schema
+	 * const settings = await cache.getOrSet("settings", defaultSettings, { schema: SettingsSchema });
+	 */
+	public async getOrSet<T>(
+		key: string,
+		value: T,
+		options: number | (SetOptions & ValidationOptions<T> & OperationOptions) = this._expiresIn
+	): Promise<T> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.getOrSet(key, value, rest)
+		}
+
+		return this.failOpen({ operation: 'getOrSet', key }, value, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const setOptions = this.resolveSetOptions(options)
+			let result = await this.setIfAbsent(keyWithNamespace, value, setOptions)
+
+			if (!result.created && typeof options !== 'number' && options.schema) {
+				const validated = await this.validateValue(key, keyWithNamespace, result.value, options)
+
+				// An invalid value treated as a miss was deleted, so the given value takes its place
+				result = validated
+					? { ...result, value: validated.value }
+					: await this.setIfAbsent(keyWithNamespace, value, setOptions)
+			}
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Get Or Set', {
+				operation: 'getOrSet',
+				key: keyWithNamespace,
+				hit: !result.created,
+				value: result.value,
+				duration,
+			})
+			this.emitConditionalWrite('getOrSet', key, result, setOptions, duration)
+
+			return result.value
+		})
+	}
+
+	/**
+	 * Retrieves the value associated with the specified key from the cache.
+	 * If the value does not exist, sets the specified fallback value in the cache forever and returns it.
+	 *
+	 * @param key - The key to retrieve or set in the cache.
+	 * @param fallbackValue - The value to set in the cache if the key does not exist.
+	 * @param options - Optional settings for the cache entry, only `l1` and `tags` are used.
+	 * @returns A Promise that resolves to the retrieved value or the fallback value.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const value = await cache.getOrSetForever("myKey", "defaultValue");
+	 * console.log(value); // Output: "defaultValue" (if the key does not exist in the cache)
+	 */
+	public async getOrSetForever<T>(
+		key: string,
+		fallbackValue: T,
+		options: Pick<SetOptions, 'l1' | 'tags'> & OperationOptions = {}
+	): Promise<T> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.getOrSetForever(key, fallbackValue, rest)
+		}
+
+		const { l1 = true, tags = [] } = options
+
+		return this.failOpen({ operation: 'getOrSetForever', key }, fallbackValue, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const result = await this.setIfAbsent(keyWithNamespace, fallbackValue, null, { l1, tags })
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Get Or Set Forever', {
+				operation: 'getOrSetForever',
+				key: keyWithNamespace,
+				hit: !result.created,
+				value: result.value,
+				duration,
+			})
+			this.emitConditionalWrite('getOrSetForever', key, result, null, duration)
+
+			return result.value
+		})
+	}
+
+	/**
+	 * Retrieves the value associated with the specified key from the cache, or computes it with the factory on a miss.
+	 *
+	 * Only one caller across all processes runs the factory for a missing key: it holds a short-lived Redis lock
+	 * while computing, and the other callers poll for the fresh value until `waitTimeout` is reached.
+	 *
+	 * @param key - The key to retrieve or compute the value for.
+	 * @param factory - The function computing the value when the key is missing.
+	 * @param options - The expiration time in seconds, or the remember options.
+	 * @returns A Promise that resolves to the cached or the computed value.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const user = await cache.remember("user:1", () => db.users.find(1), 60);
+	 *
+	 * // Throw instead of computing locally when the value is not ready after 2 seconds
+	 * const report = await cache.remember("report", buildReport, { expiresIn: 3600, waitTimeout: 2000, onTimeout: "throw" });
+	 *
+	 * // Check the cached value and the computed one against a schema
+	 * const user = await cache.remember("user:1", () => db.users.find(1), { expiresIn: 60, schema: UserSchema });
+	 */
+	public async remember<T>(
+		key: string,
+		factory: () => T | Promise<T>,
+		options: number | (RememberOptions & ValidationOptions<T> & OperationOptions) = this._expiresIn
+	): Promise<T> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.remember(key, factory, rest)
+		}
+
+		const rememberOptions = typeof options === 'number' ? { expiresIn: options } : options
+		const compute = once(factory)
+
+		try {
+			return await this.rememberValue(key, compute, this.resolveSetOptions(rememberOptions), rememberOptions)
+		} catch (error) {
+			// The factory is not called again when the storage failed after it ran
+			this.absorbFailure({ operation: 'remember', key }, error)
+			return compute()
+		}
+	}
+
+	/**
+	 * Retrieves the value associated with the specified key from the cache, or computes it with the factory
+	 * and stores it forever on a miss, with the same stampede protection as `remember`.
+	 *
+	 * @param key - The key to retrieve or compute the value for.
+	 * @param factory - The function computing the value when the key is missing.
+	 * @param options - The remember options.
+	 * @returns A Promise that resolves to the cached or the computed value.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const settings = await cache.rememberForever("settings", () => db.settings.all());
+	 */
+	public async rememberForever<T>(
+		key: string,
+		factory: () => T | Promise<T>,
+		options: Omit<RememberOptions, 'expiresIn' | 'staleFor' | 'graceFor'> &
+			ValidationOptions<T> &
+			OperationOptions = {}
+	): Promise<T> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.rememberForever(key, factory, rest)
+		}
+
+		const compute = once(factory)
+
+		try {
+			return await this.rememberValue(key, compute, null, options)
+		} catch (error) {
+			this.absorbFailure({ operation: 'rememberForever', key }, error)
+			return compute()
+		}
+	}
+
+	/**
+	 * Implements `remember` and `rememberForever`, null set options store the computed value forever.
+	 * With a schema, the cached values are checked as `get` checks them, and the computed ones before they are written.
+	 */
+	protected async rememberValue<T>(
+		key: string,
+		factory: () => T | Promise<T>,
+		setOptions: Required<SetOptions> | null,
+		rememberOptions: RememberOptions & ValidationOptions<T>
+	): Promise<T> {
+		const startedAt = performance.now()
+		await this.syncGeneration()
+		const { lockTimeout = 10000, waitTimeout = 5000, pollInterval = 50, onTimeout = 'compute' } = rememberOptions
+		const { schema, onInvalid } = rememberOptions
+		const keyWithNamespace = this.concatenateKey(key)
+		const deadline = this._now() + waitTimeout
+		const operation = setOptions ? 'remember' : 'rememberForever'
+
+		// A call fires a single hit, or a miss before it computes the value
+		const hit = (entry: CacheEntry<T>) =>
+			this.emit('hit', {
+				operation,
+				key,
+				value: entry.value,
+				isStale: entry.isStale,
+				duration: performance.now() - startedAt,
+			})
+		const miss = () => this.emit('miss', { operation, key, duration: performance.now() - startedAt })
+
+		const read = async (): Promise<CacheEntry<T> | null> => {
+			const entry = await this.lookup<T>(keyWithNamespace)
+
+			if (!entry || !schema) {
+				return entry
+			}
+
+			const validated = await this.validateValue(key, keyWithNamespace, entry.value, { schema, onInvalid })
+			return validated ? { ...entry, value: validated.value } : null
+		}
+
+		for (;;) {
+			const cached = await read()
+			const state = cached ? entryState(cached, this._now()) : 'expired'
+
+			if (cached && state === 'fresh') {
+				this.log('debug', 'Remember (Hit)', {
+					operation: 'remember',
+					key: keyWithNamespace,
+					hit: true,
+					duration: performance.now() - startedAt,
+				})
+				hit(cached)
+
+				return cached.value
+			}
+
+			if (cached && state === 'stale' && setOptions) {
+				this.log('debug', 'Remember (Stale)', {
+					operation: 'remember',
+					key: keyWithNamespace,
+					hit: true,
+					duration: performance.now() - startedAt,
+				})
+				hit(cached)
+
+				this.revalidate(key, factory, { ...setOptions, schema }, lockTimeout)
+				return cached.value
+			}
+
+			// Past the stale window the value is only served when the factory throws
+			const graceEntry = cached && state === 'grace' ? cached : null
+			const lock = await this.tryLock(`remember:${key}`, { ttl: lockTimeout })
+
+			if (lock) {
+				try {
+					// Another process may have stored the value between the lookup and the lock acquisition
+					const stored = await read()
+
+					if (stored && entryState(stored, this._now()) === 'fresh') {
+						hit(stored)
+						return stored.value
+					}
+
+					miss()
+					const value = await this.validateWrite(
+						key,
+						await this.computeWithGrace(keyWithNamespace, factory, graceEntry),
+						schema
+					)
+
+					if (setOptions === null) {
+						await this.setForever(key, value, rememberOptions)
+					} else {
+						await this.set(key, value, setOptions)
+					}
+
+					this.log('debug', 'Remember (Computed)', {
+						operation: 'remember',
+						key: keyWithNamespace,
+						hit: false,
+						duration: performance.now() - startedAt,
+					})
+
+					return value
+				} finally {
+					await lock.release()
+				}
+			}
+
+			if (this._now() >= deadline) {
+				this.log('warn', 'Remember (Wait Timeout)', {
+					operation: 'remember',
+					key: keyWithNamespace,
+					duration: performance.now() - startedAt,
+				})
+
+				if (onTimeout === 'throw') {
+					throw new LockTimeoutError(keyWithNamespace, waitTimeout)
+				}
+
+				miss()
+				return this.computeWithGrace(keyWithNamespace, factory, graceEntry)
+			}
+
+			await sleep(pollInterval)
+		}
+	}
+
+	/**
+	 * Runs the factory, falling back to the value of an entry in its grace window when the factory throws.
+	 */
+	protected async computeWithGrace<T>(
+		keyWithNamespace: string,
+		factory: () => T | Promise<T>,
+		graceEntry: CacheEntry<T> | null
+	): Promise<T> {
+		try {
+			return await factory()
+		} catch (error) {
+			if (graceEntry === null) {
+				throw error
+			}
+
+			this.log('warn', 'Remember (Grace)', { operation: 'remember', key: keyWithNamespace, error })
+			this.reportFailure({ operation: 'remember' }, error)
+
+			return graceEntry.value
+		}
+	}
+
+	/**
+	 * Recomputes a stale value in the background, the remember lock ensures a single refresh across all processes.
+	 */
+	protected revalidate<T>(
+		key: string,
+		factory: () => T | Promise<T>,
+		setOptions: Required<SetOptions> & Pick<ValidationOptions<T>, 'schema'>,
+		lockTimeout: number
+	): void {
+		const refresh = async () => {
+			const lock = await this.tryLock(`remember:${key}`, { ttl: lockTimeout })
+
+			if (!lock) {
+				return
+			}
+
+			try {
+				await this.set(key, await factory(), setOptions)
+			} finally {
+				await lock.release()
+			}
+		}
+
+		refresh().catch((error) => {
+			this.log('error', 'Remember (Refresh Failed)', {
+				operation: 'remember',
+				key: this.concatenateKey(key),
+				error,
+			})
+			this.reportFailure({ operation: 'remember', key }, error)
+		})
+	}
+
+	/**
+	 * Tries to acquire a distributed lock once, without waiting.
+	 *
+	 * @param key - The name of the lock, prefixed with `lock:` and the namespace.
+	 * @param options - The lock options, only `ttl` is used.
+	 * @returns A Promise that resolves to the lock, or null if it is held by someone else.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const lock = await cache.tryLock("jobs:import", { ttl: 30000 });
+	 * if (lock) {
+	 *   await importJobs();
+	 *   await lock.release();
+	 * }
+	 */
+	public async tryLock(key: string, { ttl = 10000 }: LockOptions = {}): Promise<Lock | null> {
+		await this.syncGeneration()
+		const lockKey = this.concatenateKey(`lock:${key}`)
+		const lock = await this.acquireLock(lockKey, ttl)
+
+		this.log('debug', `Try Lock (${lock ? 'Acquired' : 'Busy'})`, { operation: 'tryLock', key: lockKey })
+
+		return lock
+	}
+
+	/**
+	 * Acquires a distributed lock, retrying with an exponential backoff until it is acquired or the timeout is reached.
+	 *
+	 * @param key - The name of the lock, prefixed with `lock:` and the namespace.
+	 * @param options - The lock options.
+	 * @returns A Promise that resolves to the acquired lock.
+	 * @throws {LockTimeoutError} If the lock could not be acquired before the timeout.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const lock = await cache.lock("jobs:import", { ttl: 30000, timeout: 5000 });
+	 * try {
+	 *   await importJobs();
+	 * } finally {
+	 *   await lock.release();
+	 * }
+	 */
+	public async lock(
+		key: string,
+		{ ttl = 10000, timeout = 10000, retryDelay = 50, maxRetryDelay = 1000 }: LockOptions = {}
+	): Promise<Lock> {
+		await this.syncGeneration()
+		const lockKey = this.concatenateKey(`lock:${key}`)
+		const deadline = Date.now() + timeout
+
+		for (let attempt = 0; ; attempt++) {
+			const lock = await this.acquireLock(lockKey, ttl)
+
+			if (lock) {
+				this.log('debug', `Lock (Acquired after ${attempt + 1} attempt(s))`, {
+					operation: 'lock',
+					key: lockKey,
+				})
+
+				return lock
+			}
+
+			const remaining = deadline - Date.now()
+
+			if (remaining <= 0) {
+				throw new LockTimeoutError(lockKey, timeout)
+			}
+
+			// Exponential backoff with jitter, so competing processes do not retry in lockstep
+			const delay = Math.min(maxRetryDelay, retryDelay * 2 ** attempt) * (0.5 + Math.random() / 2)
+			await sleep(Math.min(delay, remaining))
+		}
+	}
+
+	/**
+	 * Runs the callback while holding a distributed lock, and releases it afterwards.
+	 *
+	 * The lock is extended every half of its time to live while the callback runs, unless `autoExtend` is disabled.
+	 * If an extension fails the lock was lost, and `lock.signal` is aborted.
+	 *
+	 * @param key - The name of the lock, prefixed with `lock:` and the namespace.
+	 * @param callback - The function to run while holding the lock.
+	 * @param options - The lock options.
+	 * @returns A Promise that resolves to the value returned by the callback.
+	 * @throws {LockTimeoutError} If the lock could not be acquired before the timeout.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const count = await cache.withLock("jobs:import", async (lock) => {
+	 *   return importJobs({ signal: lock.signal });
+	 * });
+	 */
+	public async withLock<T>(
+		key: string,
+		callback: (lock: Lock) => T | Promise<T>,
+		options: LockOptions = {}
+	): Promise<T> {
+		const lock = await this.lock(key, options)
+		let renewal: ReturnType<typeof setInterval> | undefined
+
+		if (options.autoExtend ?? true) {
+			renewal = setInterval(async () => {
+				const extended = await lock.extend().catch(() => false)
+
+				if (!extended) {
+					clearInterval(renewal)
+
+					this.log('warn', 'With Lock (Lost)', { operation: 'withLock', key: lock.key })
+				}
+			}, lock.ttl / 2)
+		}
+
+		try {
+			return await callback(lock)
+		} finally {
+			clearInterval(renewal)
+			await lock.release()
+		}
+	}
+
+	/**
+	 * Creates a rate limiter counting the hits of each key atomically in Redis, under the namespace of this instance.
+	 *
+	 * @param options - The algorithm, the limit and the window of the rate limiter.
+	 * @returns The rate limiter.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const limiter = cache.rateLimiter({ algorithm: 'sliding-window-counter', limit: 100, window: 60 });
+	 * const { allowed, retryAfter } = await limiter.consume(`api:${userId}`);
+	 */
+	public rateLimiter(options: RateLimiterOptions): RateLimiter {
+		return new RateLimiter(this, options)
+	}
+
+	/**
+	 * Defines a typed cache entry, whose keys are built from typed arguments and whose reads and writes
+	 * share the same expiration, tags and schema. The type of the value is inferred from the schema.
+	 *
+	 * @param options - The key builder and the settings of the entries.
+	 * @returns The typed handle of the entries.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const userCache = cache.define({
+	 *   key: (id: number) => `user:${id}`,
+	 *   ttl: 3600,
+	 *   tags: (id) => [`user:${id}`],
+	 *   schema: UserSchema,
+	 * });
+	 *
+	 * await userCache.set(1, user);
+	 * const cached = await userCache.get(1); // -> User | null
+	 * const fresh = await userCache.remember(2, () => db.users.find(2));
+	 */
+	public define<T, Args extends unknown[] = [string]>(
+		options: CacheDefinitionOptions<T, Args>
+	): CacheDefinition<T, Args> {
+		return new CacheDefinition(this, options)
+	}
+
+	/**
+	 * Memoizes an async function, caching its results under the keys built from its arguments.
+	 * Concurrent calls with the same key share a single call of the function, and the results it throws are not cached.
+	 *
+	 * @param fn - The function to memoize, called with the same `this` as the memoized function.
+	 * @param options - The key builder, the expiration and the tags of the results.
+	 * @returns The memoized function, with the same parameters as the original one.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const findUser = cache.wrap((id: number) => db.users.find(id), {
+	 *   key: (id) => `user:${id}`,
+	 *   ttl: 3600,
+	 *   tags: (id) => [`user:${id}`],
+	 * });
+	 *
+	 * const user = await findUser(1); // computed once, then read from the cache
+	 */
+	public wrap<Args extends unknown[], R>(
+		fn: (...args: Args) => R | Promise<R>,
+		{ key, ttl, tags = [] }: WrapOptions<Args>
+	): (...args: Args) => Promise<R> {
+		const pending = new Map<string, Promise<R>>()
+
+		// An arrow function keeps the cache as `this`, the memoized function receives the `this` of its caller
+		const load = async (cacheKey: string, args: Args, compute: () => R | Promise<R>): Promise<R> => {
+			// A cached null result is still an entry, so it is not recomputed
+			const entry = await this.readEntry<R>('get', cacheKey)
+
+			if (entry) {
+				return entry.value
+			}
+
+			const value = await compute()
+			const resultTags = typeof tags === 'function' ? tags(...args) : tags
+
+			await this.set(cacheKey, value, { expiresIn: ttl ?? this._expiresIn, tags: resultTags })
+
+			return value
+		}
+
+		return function (this: unknown, ...args: Args): Promise<R> {
+			const cacheKey = key(...args)
+			let call = pending.get(cacheKey)
+
+			if (!call) {
+				call = load(cacheKey, args, () => fn.apply(this, args)).finally(() => pending.delete(cacheKey))
+
+				pending.set(cacheKey, call)
+			}
+
+			return call
+		}
+	}
+
+	/**
+	 * Increments the value of a key by one.
+	 *
+	 * @param {string} key - The key to increment.
+	 * @param {OperationOptions} [options] - The timeout, the abort signal and the retries of this call.
+	 * @returns {Promise<number>} - A Promise that resolves to the new value after incrementing.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const value = await cache.increment("myKey");
+	 * console.log(value); // Output: 1 (if the key does not exist in the cache)
+	 */
+	public async increment(key: string, options: OperationOptions = {}): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.increment(key)
+		}
+
+		return this.reportErrors({ operation: 'increment', key }, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const value = await this._guardedDriver.incr(keyWithNamespace)
+			this.invalidateL1({ type: 'keys', keys: [keyWithNamespace] })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Increment', { operation: 'increment', key: keyWithNamespace, value, duration })
+			this.emit('set', { operation: 'increment', key, value, ttl: null, duration })
+
+			return value
+		})
+	}
+
+	/**
+	 * Decrements the value of a key by one.
+	 *
+	 * @param {string} key - The key to decrement.
+	 * @param {OperationOptions} [options] - The timeout, the abort signal and the retries of this call.
+	 * @returns {Promise<number>} - A Promise that resolves to the new value after decrementing.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const value = await cache.decrement("myKey");
+	 * console.log(value); // Output: -1 (if the key does not exist in the cache)
+	 */
+	public async decrement(key: string, options: OperationOptions = {}): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.decrement(key)
+		}
+
+		return this.reportErrors({ operation: 'decrement', key }, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const value = await this._guardedDriver.decr(keyWithNamespace)
+			this.invalidateL1({ type: 'keys', keys: [keyWithNamespace] })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Decrement', { operation: 'decrement', key: keyWithNamespace, value, duration })
+			this.emit('set', { operation: 'decrement', key, value, ttl: null, duration })
+
+			return value
+		})
+	}
+
+	/**
+	 * Sets the expiration time for a key.
+	 * @param key - The key to set the expiration time for.
+	 * @param expiresIn - The expiration time in seconds.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves when the expiration time is set.
+	 * @example
+	 * const cache = new CacheXS();
+	 * await cache.expire("myKey", 60);
+	 */
+
+	public async expire(key: string, expiresIn: number, options: OperationOptions = {}): Promise<void> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.expire(key, expiresIn)
+		}
+
+		return this.failOpen({ operation: 'expire', key }, undefined, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			await this._guardedDriver.expire(keyWithNamespace, expiresIn)
+			this.invalidateL1({ type: 'keys', keys: [keyWithNamespace] })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Expire', { operation: 'expire', key: keyWithNamespace, ttl: expiresIn, duration })
+			this.emit('expire', { operation: 'expire', key, ttl: expiresIn, duration })
+		})
+	}
+
+	/**
+	 * Expires a key immediately.
+	 * @param key - The key to expire.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves when the key is expired.
+	 * @example
+	 * const cache = new CacheXS();
+	 * await cache.expireNow("myKey");
+	 */
+	public async expireNow(key: string, options: OperationOptions = {}): Promise<void> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.expireNow(key)
+		}
+
+		return this.failOpen({ operation: 'expireNow', key }, undefined, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			await this._guardedDriver.expire(keyWithNamespace, 0)
+			this.invalidateL1({ type: 'keys', keys: [keyWithNamespace] })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Expire Now', { operation: 'expireNow', key: keyWithNamespace, duration })
+			this.emit('expire', { operation: 'expireNow', key, ttl: 0, duration })
+		})
+	}
+
+	/**
+	 * Gets the time to live for a key.
+	 * @param key - The key to get the time to live for.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves to the time to live in seconds.
+	 * @example
+	 * const cache = new CacheXS();
+	 * const ttl = await cache.ttl("myKey");
+	 * console.log(ttl); // Output: 60
+	 */
+	public async ttl(key: string, options: OperationOptions = {}): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.ttl(key)
+		}
+
+		return this.failOpen({ operation: 'ttl', key }, -2, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const ttl = await this._guardedDriver.ttl(keyWithNamespace)
+
+			this.log('debug', 'TTL', {
+				operation: 'ttl',
+				key: keyWithNamespace,
+				ttl,
+				duration: performance.now() - startedAt,
+			})
+			return ttl
+		})
+	}
+
+	/**
+	 * Increments the value of a key by one and sets the expiration time for the key.
+	 * @param key - The key to increment.
+	 * @param expiresIn - The expiration time in seconds.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves to the new value after incrementing.
+	 * @example
+	 * const cache = new CacheXS();
+	 * const value = await cache.incrementWithExpiry("myKey", 60);
+	 */
+	public async incrementWithExpiry(key: string, expiresIn: number, options: OperationOptions = {}): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.incrementWithExpiry(key, expiresIn)
+		}
+
+		const startedAt = performance.now()
+		await this.syncGeneration()
+		const keyWithNamespace = this.concatenateKey(key)
+
+		const value = await this.increment(key)
+
+		if (value === 1) {
+			await this.expire(key, expiresIn)
+		}
+
+		this.log('debug', 'Increment With Expiry', {
+			operation: 'incrementWithExpiry',
+			key: keyWithNamespace,
+			ttl: expiresIn,
+			value,
+			duration: performance.now() - startedAt,
+		})
+
+		return value
+	}
+
+	/**
+	 * Deletes a cache entry by its key.
+	 *
+	 * @param key The key of the cache entry to delete.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves when the cache entry is deleted.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * await cache.delete("myKey");
+	 */
+	public async delete(key: string, options: OperationOptions = {}): Promise<void> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.delete(key)
+		}
+
+		return this.failOpen({ operation: 'delete', key }, undefined, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+
+			if (!(await this.runBeforeHooks('delete', { operation: 'delete', key }))) {
+				return
+			}
+
+			await this._guardedDriver.del(keyWithNamespace)
+			this.invalidateL1({ type: 'keys', keys: [keyWithNamespace] })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Delete', { operation: 'delete', key: keyWithNamespace, duration })
+			this.emit('delete', { operation: 'delete', keys: [key], duration })
+		})
+	}
+
+	/**
+	 * Deletes multiple cache entries specified by the given keys.
+	 *
+	 * @param keys - An array of keys representing the cache entries to be deleted.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves when the cache entries are successfully deleted.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const keys = ['key1', 'key2', 'key3'];
+	 *
+	 * await cache.deleteMany(keys);
+	 */
+	public async deleteMany(keys: string[], options: OperationOptions = {}): Promise<void> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.deleteMany(keys)
+		}
+
+		return this.failOpen({ operation: 'deleteMany' }, undefined, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const allowedKeys: string[] = []
+
+			for (const key of keys) {
+				if (await this.runBeforeHooks('delete', { operation: 'deleteMany', key })) {
+					allowedKeys.push(key)
+				}
+			}
+
+			if (allowedKeys.length === 0) {
+				return
+			}
+
+			const keysWithNamespace = allowedKeys.map((key) => this.concatenateKey(key))
+
+			await this.deleteKeys(keysWithNamespace)
+			this.invalidateL1({ type: 'keys', keys: keysWithNamespace })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Delete Multiple', { operation: 'deleteMany', keys: keysWithNamespace, duration })
+			this.emit('delete', { operation: 'deleteMany', keys: allowedKeys, duration })
+		})
+	}
+
+	/**
+	 * Clears all cache entries of the namespace, with `SCAN` and batched `UNLINK` commands so Redis is never blocked.
+	 * Without a namespace every key of the database is deleted, which must be confirmed with the `all` option.
+	 * With versioned namespaces, the generation is bumped instead of deleting the keys, see `invalidateNamespace`.
+	 *
+	 * @param options - Optional settings for the clear.
+	 * @returns A Promise that resolves to the number of deleted keys, along with the keys that would be deleted for a dry run.
+	 * @throws {CacheXSError} If the namespace is empty and the `all` option is not set.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ namespace: 'myapp' });
+	 * await cache.clear();
+	 *
+	 * // List the keys without deleting them
+	 * const { keys } = await cache.clear({ dryRun: true });
+	 *
+	 * // Delete every key of the database, reporting the progress
+	 * await new CacheXS().clear({ all: true, onProgress: ({ deleted }) => console.log(deleted) });
+	 */
+	public async clear(options: ClearOptions & OperationOptions = {}): Promise<ClearResult> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.clear(rest)
+		}
+
+		const { all = false, dryRun = false, onProgress } = options
+
+		return this.failOpen({ operation: 'clear' }, { count: 0 }, async () => {
+			if (this._namespace.length === 0 && !this._versioning && !all) {
+				throw new CacheXSError(
+					'CacheXS -> Clearing without a namespace deletes every key of the database, confirm it with { all: true }'
+				)
+			}
+
+			if (this._versioning && !dryRun) {
+				await this.invalidateNamespace()
+				return { count: 0 }
+			}
+
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const prefixLength = this.keyPrefix().length
+			const progress: ClearProgress = { scanned: 0, deleted: 0 }
+			const keys = new Set<string>()
+
+			await this.scanEach(this.concatenateKey('*'), async (matchedKeys) => {
+				progress.scanned += matchedKeys.length
+
+				if (dryRun) {
+					matchedKeys.forEach((key) => keys.add(key.slice(prefixLength)))
+				} else {
+					progress.deleted += await this.deleteKeys(matchedKeys)
+				}
+
+				onProgress?.({ ...progress })
+			})
+
+			const duration = performance.now() - startedAt
+
+			if (dryRun) {
+				this.log('debug', 'Clear (Dry Run)', { operation: 'clear', count: keys.size, duration })
+				return { count: keys.size, keys: [...keys] }
+			}
+
+			this.invalidateL1({ type: 'flush', namespace: this._namespace })
+
+			this.log('debug', 'Clear', { operation: 'clear', count: progress.deleted, duration })
+			this.emit('clear', { operation: 'clear', duration })
+
+			return { count: progress.deleted }
+		})
+	}
+
+	/**
+	 * Invalidates every key of the namespace in O(1) by bumping its generation with `INCR`.
+	 * The keys of the previous generations become unreachable and expire on their own, or are reclaimed by `sweep`.
+	 *
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves to the new generation of the namespace.
+	 * @throws {CacheXSError} If the `versioning` option is disabled.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ namespace: 'catalog', versioning: true });
+	 * await cache.set('product:1', product);
+	 * await cache.invalidateNamespace();
+	 * await cache.get('product:1'); // -> null
+	 */
+	public async invalidateNamespace(options: OperationOptions = {}): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.invalidateNamespace()
+		}
+
+		return this.failOpen({ operation: 'invalidateNamespace' }, this._generation.value, async () => {
+			if (!this._versioning) {
+				throw new CacheXSError('CacheXS -> invalidateNamespace requires the versioning option')
+			}
+
+			const startedAt = performance.now()
+			const generation = await this._guardedDriver.incr(this.generationKey())
+
+			this._generation.value = generation
+			this._generation.expiresAt = this._now() + this._versioning.refreshInterval
+
+			// The other instances read the new generation when they receive the flush
+			this.invalidateL1({ type: 'flush', namespace: this._namespace })
+
+			const duration = performance.now() - startedAt
+
+			this.log('debug', 'Invalidate Namespace', { operation: 'invalidateNamespace', count: generation, duration })
+			this.emit('clear', { operation: 'invalidateNamespace', duration })
+
+			return generation
+		})
+	}
+
+	/**
+	 * Deletes the keys left behind by the previous generations of a versioned namespace, with `SCAN`.
+	 * Runs in the background when the `sweepInterval` versioning option is set.
+	 *
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A Promise that resolves to the number of deleted keys.
+	 * @throws {CacheXSError} If the `versioning` option is disabled.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ namespace: 'catalog', versioning: true });
+	 * await cache.invalidateNamespace();
+	 * const deletedCount = await cache.sweep();
+	 */
+	public async sweep(options: OperationOptions = {}): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.sweep()
+		}
+
+		return this.failOpen({ operation: 'sweep' }, 0, async () => {
+			if (!this._versioning) {
+				throw new CacheXSError('CacheXS -> sweep requires the versioning option')
+			}
+
+			const startedAt = performance.now()
+			await this.syncGeneration()
+
+			const namespacePrefix = this._namespace.length > 0 ? `${this._namespace}:` : ''
+			let deletedCount = 0
+
+			await this.scanEach(`${namespacePrefix}v*`, async (matchedKeys) => {
+				const orphanedKeys = matchedKeys.filter((key) => {
+					const match = /^v(\d+):/.exec(key.slice(namespacePrefix.length))
+					return match !== null && Number(match[1]) < this._generation.value
+				})
+
+				deletedCount += await this.deleteKeys(orphanedKeys)
+			})
+
+			this.log('debug', 'Sweep', {
+				operation: 'sweep',
+				count: deletedCount,
+				duration: performance.now() - startedAt,
+			})
+
+			return deletedCount
+		})
+	}
+
+	/**
+	 * Checks if a key exists in the cache.
+	 * @param key - The key to check.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A promise that resolves to a boolean indicating whether the key exists in the cache.
+	 * @example
+	 * const cache = new CacheXS();
+	 * const exists = await cache.exists("myKey");
+	 * console.log(exists); // true or false
+	 */
+	public async exists(key: string, options: OperationOptions = {}): Promise<boolean> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.exists(key)
+		}
+
+		return this.failOpen({ operation: 'exists', key }, false, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const isExists = await this._guardedDriver.exists(keyWithNamespace)
+
+			this.log('debug', 'Exists', {
+				operation: 'exists',
+				key: keyWithNamespace,
+				hit: isExists,
+				duration: performance.now() - startedAt,
+			})
+
+			return isExists
+		})
+	}
+
+	/**
+	 * Checks if a key is missing in the cache.
+	 *
+	 * @param key - The key to check.
+	 * @param options - The timeout, the abort signal and the retries of this call.
+	 * @returns A promise that resolves to a boolean indicating whether the key is missing or not.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const isMissing = await cache.missing("myKey");
+	 * console.log(isMissing); // true or false
+	 */
+	public async missing(key: string, options: OperationOptions = {}): Promise<boolean> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.missing(key)
+		}
+
+		return this.failOpen({ operation: 'missing', key }, true, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const keyWithNamespace = this.concatenateKey(key)
+			const isExists = await this._guardedDriver.exists(keyWithNamespace)
+
+			this.log('debug', 'Missing', {
+				operation: 'missing',
+				key: keyWithNamespace,
+				hit: isExists,
+				duration: performance.now() - startedAt,
+			})
+
+			return !isExists
+		})
+	}
+
+	/**
+	 * Finds Redis keys matching a pattern using SCAN instead of KEYS
+	 *
+	 * This function is a more efficient alternative to Redis.keys() for production environments.
+	 * It uses the SCAN command which is non-blocking and designed for production use.
+	 *
+	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
+	 * @param {number} count - The number of keys to scan per iteration (default: 100)
+	 * @param {OperationOptions} [options] - The timeout, the abort signal and the retries of this call.
+	 * @returns {Promise<string[]>} Array of matching keys (without namespace prefix)
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * // Find all user keys
+	 * const userKeys = await cache.scan("user:*");
+	 * console.log(userKeys); // ["user:123", "user:456"]
+	 *
+	 * // Find keys with custom count
+	 * const sessionKeys = await cache.scan("session:*", 50);
+	 */
+	public async scan(pattern: string, count: number = 100, options: OperationOptions = {}): Promise<string[]> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.scan(pattern, count)
+		}
+
+		return this.failOpen({ operation: 'scan' }, [], async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			let cursor = '0'
+			const keys: string[] = []
+			const patternWithNamespace = this.concatenateKey(pattern)
+			const prefixLength = this.keyPrefix().length
+
+			do {
+				// SCAN returns an array where the first element is the new cursor
+				// and the second element is an array of matched keys
+				const [nextCursor, matchedKeys] = (await this._guardedDriver.scan(
+					cursor,
+					'MATCH',
+					patternWithNamespace,
+					'COUNT',
+					count
+				)) as [string, string[]]
+
+				cursor = nextCursor
+
+				// Remove namespace prefix from results
+				const keysWithoutNamespace = matchedKeys.map((key) => key.slice(prefixLength))
+				keys.push(...keysWithoutNamespace)
+			} while (cursor !== '0')
+
+			this.log('debug', 'Scan', {
+				operation: 'scan',
+				pattern,
+				count: keys.length,
+				duration: performance.now() - startedAt,
+			})
+
+			return keys
+		})
+	}
+
+	/**
+	 * Finds Redis keys matching a pattern using the KEYS command
+	 *
+	 * Note: This method uses the KEYS command which blocks Redis while executing.
+	 * For production environments with large datasets, consider using scan() instead.
+	 *
+	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
+	 * @param {OperationOptions} [options] - The timeout, the abort signal and the retries of this call.
+	 * @returns {Promise<string[]>} Array of matching keys (without namespace prefix)
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * // Find all user keys
+	 * const userKeys = await cache.keys("user:*");
+	 * console.log(userKeys); // ["user:123", "user:456"]
+	 */
+	public async keys(pattern: string, options: OperationOptions = {}): Promise<string[]> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.keys(pattern)
+		}
+
+		return this.failOpen({ operation: 'keys' }, [], async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			const patternWithNamespace = this.concatenateKey(pattern)
+			const keys = await this._guardedDriver.keys(patternWithNamespace)
+
+			// Remove namespace prefix from results
+			const prefixLength = this.keyPrefix().length
+			const keysWithoutNamespace = keys.map((key) => key.slice(prefixLength))
+
+			this.log('debug', 'Keys', {
+				operation: 'keys',
+				pattern,
+				count: keysWithoutNamespace.length,
+				duration: performance.now() - startedAt,
+			})
+
+			return keysWithoutNamespace
+		})
+	}
+
+	/**
+	 * Retrieves multiple values by pattern matching
+	 *
+	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
+	 * @param {boolean} useScan - Whether to use SCAN (true) or KEYS (false) command (default: true)
+	 * @param {ValidationOptions<T>} options - The schema checking the values, and what happens to the invalid ones
+	 * @returns {Promise<{[key: string]: T | null}>} Object with keys and their values
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * // Get all user data
+	 * const userData = await cache.getByPattern<User>("user:*");
+	 * console.log(userData); // { "user:123": {...}, "user:456": {...} }
+	 *
+	 * // Only keep the values matching the schema
+	 * const users = await cache.getByPattern("user:*", true, { schema: UserSchema });
+	 */
+	public async getByPattern<T>(
+		pattern: string,
+		useScan: boolean = true,
+		options: ValidationOptions<T> & OperationOptions = {}
+	): Promise<{ [key: string]: T | null }> {
+		const [cache, rest] = this.callWith(options)
+
+		if (cache) {
+			return cache.getByPattern<T>(pattern, useScan, rest)
+		}
+
+		return this.failOpen({ operation: 'getByPattern' }, {}, async () => {
+			const startedAt = performance.now()
+			const matchingKeys = useScan ? await this.scan(pattern) : await this.keys(pattern)
+			const result: { [key: string]: T | null } = {}
+
+			const values = await this.getMany<T>(matchingKeys, options)
+
+			matchingKeys.forEach((key, index) => {
+				result[key] = values[index]
+			})
+
+			this.log('debug', 'Get By Pattern', {
+				operation: 'getByPattern',
+				pattern,
+				count: matchingKeys.length,
+				duration: performance.now() - startedAt,
+			})
+
+			return result
+		})
+	}
+
+	/**
+	 * Deletes keys matching a pattern
+	 *
+	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
+	 * @param {boolean} useScan - Whether to use SCAN (true) or KEYS (false) command (default: true)
+	 * @param {OperationOptions} [options] - The timeout, the abort signal and the retries of this call.
+	 * @returns {Promise<number>} Number of keys deleted
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * // Delete all expired sessions
+	 * const deletedCount = await cache.deleteByPattern("session:*:expired");
+	 * console.log(`Deleted ${deletedCount} expired sessions`);
+	 */
+	public async deleteByPattern(
+		pattern: string,
+		useScan: boolean = true,
+		options: OperationOptions = {}
+	): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.deleteByPattern(pattern, useScan)
+		}
+
+		return this.failOpen({ operation: 'deleteByPattern' }, 0, async () => {
+			const startedAt = performance.now()
+			const matchingKeys = useScan ? await this.scan(pattern) : await this.keys(pattern)
+
+			if (matchingKeys.length > 0) {
+				await this.deleteMany(matchingKeys)
+			}
+
+			// Also evict the in-memory copies of keys that already expired in Redis
+			this.invalidateL1({ type: 'pattern', pattern: this.concatenateKey(pattern) })
+
+			this.log('debug', 'Delete By Pattern', {
+				operation: 'deleteByPattern',
+				pattern,
+				count: matchingKeys.length,
+				duration: performance.now() - startedAt,
+			})
+
+			return matchingKeys.length
+		})
+	}
+
+	/**
+	 * Deletes every value stored with at least one of the given tags, and the tag indexes themselves, atomically.
+	 *
+	 * @param {string[]} tags - The tags to invalidate.
+	 * @param {OperationOptions} [options] - The timeout, the abort signal and the retries of this call.
+	 * @returns {Promise<number>} Number of keys deleted
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * await cache.set('user:1:profile', profile, { tags: ['user:1'] });
+	 * await cache.set('user:1:feed', feed, { tags: ['user:1', 'feeds'] });
+	 *
+	 * const deletedCount = await cache.invalidateTags(['user:1']);
+	 * console.log(deletedCount); // Output: 2
+	 */
+	public async invalidateTags(tags: string[], options: OperationOptions = {}): Promise<number> {
+		const [cache] = this.callWith(options)
+
+		if (cache) {
+			return cache.invalidateTags(tags)
+		}
+
+		return this.failOpen({ operation: 'invalidateTags' }, 0, async () => {
+			const startedAt = performance.now()
+			await this.syncGeneration()
+			if (tags.length === 0) {
+				return 0
+			}
+
+			const tagKeys = tags.map((tag) => this.tagKeyName(tag))
+			const [deletedCount, ...keys] = (await this._guardedDriver.send('EVAL', [
+				INVALIDATE_TAGS_SCRIPT,
+				String(tagKeys.length),
+				...tagKeys,
+			])) as [number, ...string[]]
+
+			if (keys.length > 0) {
+				this.invalidateL1({ type: 'keys', keys: [...new Set(keys)] })
+			}
+
+			this.log('debug', 'Invalidate Tags', {
+				operation: 'invalidateTags',
+				tags,
+				count: deletedCount,
+				duration: performance.now() - startedAt,
+			})
+
+			return deletedCount
+		})
+	}
+
+	/**
+	 * Creates a pipeline, sending its commands together without waiting for each reply.
+	 * The namespace and the serializer are applied to the commands, but they are not atomic.
+	 *
+	 * @returns A chainable pipeline, sending its commands when `exec` is called.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const [, views] = await cache.pipeline().set('post:1', post, 60).increment('post:1:views').exec();
+	 */
+	public pipeline(): Pipeline {
+		return new Pipeline((operations) =>
+			this.reportErrors({ operation: 'pipeline' }, () => this.executePipeline(operations, false))
+		)
+	}
+
+	/**
+	 * Creates a transaction, running its commands atomically through a Lua script which declares every key it touches
+	 * and indexes the tags of the written keys in the same run.
+	 * A failing command aborts the remaining ones, the commands run before it are not rolled back.
+	 *
+	 * @returns A chainable transaction, running its commands when `exec` is called.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * const [, , count] = await cache
+	 *   .transaction()
+	 *   .set('order:1', order, 3600)
+	 *   .delete('cart:1')
+	 *   .increment('orders:count')
+	 *   .exec();
+	 */
+	public transaction(): Pipeline {
+		return new Pipeline((operations) =>
+			this.reportErrors({ operation: 'transaction' }, () => this.executePipeline(operations, true))
+		)
+	}
+
+	/**
+	 * Releases the resources held by this instance, such as the subscriber connection of the invalidation channel
+	 * and the timer of the sweeper. The Redis connection itself is left open.
+	 *
+	 * @returns A Promise that resolves when the resources are released.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ l1: {}, invalidation: true });
+	 * await cache.close();
+	 */
+	public async close(): Promise<void> {
+		this.stopSweeper()
+		await this.unsubscribeInvalidations()
+		this._invalidationChannel = null
+	}
+
+	/**
+	 * Reads and deserializes the entry of a key, distinguishing a stored null value from a missing key.
+	 * The returned entry may be past its stale window, callers are expected to check its state.
+	 *
+	 * @param keyWithNamespace - The key, already prefixed with the namespace.
+	 * @param useL1 - Whether the in-memory L1 tier is read and filled.
+	 * @returns A Promise that resolves to the entry, or null if the key is not found.
+	 */
+	protected async lookup<T>(keyWithNamespace: string, useL1: boolean = true): Promise<CacheEntry<T> | null> {
+		const [entry] = await this.lookupMany<T>([keyWithNamespace], useL1)
+		return entry
+	}
+
+	/**
+	 * Reads and deserializes the entries of several keys, from the L1 tier first and then from Redis in batches.
+	 *
+	 * @param keysWithNamespace - The keys, already prefixed with the namespace.
+	 * @param useL1 - Whether the in-memory L1 tier is read and filled.
+	 * @returns A Promise that resolves to the entries in the same order as the keys, with null for the missing ones.
+	 */
+	protected async lookupMany<T>(
+		keysWithNamespace: string[],
+		useL1: boolean = true
+	): Promise<(CacheEntry<T> | null)[]> {
+		const l1 = useL1 ? this._l1 : null
+		const payloads: (SerializedValue | null)[] = keysWithNamespace.map(() => null)
+		const missingIndexes: number[] = []
+
+		keysWithNamespace.forEach((keyWithNamespace, index) => {
+			const cachedPayload = l1?.get(keyWithNamespace)
+
+			if (cachedPayload !== undefined) {
+				this._tierStats.l1.hits++
+				payloads[index] = cachedPayload
+				return
+			}
+
+			if (l1) {
+				this._tierStats.l1.misses++
+			}
+
+			missingIndexes.push(index)
+		})
+
+		const missingKeys = missingIndexes.map((index) => keysWithNamespace[index])
+		const version = l1?.version
+		const [redisPayloads, pttls] = await Promise.all([
+			this.readPayloads(missingKeys),
+			l1 ? Promise.all(missingKeys.map((key) => this._guardedDriver.pttl(key))) : null,
+		])
+
+		redisPayloads.forEach((payload, position) => {
+			// Older versions stored undefined values as empty strings
+			if (payload === null || payload.length === 0) {
+				this._tierStats.l2.misses++
+				return
+			}
+
+			this._tierStats.l2.hits++
+			payloads[missingIndexes[position]] = payload
+
+			// Skip filling the L1 tier when a key was written or evicted while Redis was read
+			if (l1 && pttls && l1.version === version) {
+				const pttl = pttls[position]
+				this.writeL1(missingKeys[position], payload, pttl >= 0 ? pttl : Number.POSITIVE_INFINITY)
+			}
+		})
+
+		const now = this._now()
+		return Promise.all(
+			payloads.map((payload, index) =>
+				payload === null ? null : this.deserializeEntry<T>(keysWithNamespace[index], payload, now)
+			)
+		)
+	}
+
+	/**
+	 * Stores a value only if the key holds no servable value, with `SET NX` so concurrent callers cannot both write it.
+	 * With a text serializer the existing value is read atomically by the same command through the `GET` option.
+	 *
+	 * @param keyWithNamespace - The key, already prefixed with the namespace.
+	 * @param value - The value to store.
+	 * @param setOptions - The resolved set options, or null to store the value forever.
+	 * @param foreverOptions - The `l1` and `tags` options used when the value is stored forever.
+	 * @returns A Promise that resolves to whether the value was created, along with the stored or the existing value.
+	 */
+	protected async setIfAbsent<T>(
+		keyWithNamespace: string,
+		value: T,
+		setOptions: Required<SetOptions> | null,
+		{ l1, tags }: Required<Pick<SetOptions, 'l1' | 'tags'>> = setOptions ?? { l1: true, tags: [] }
+	): Promise<SetIfNotExistsResult<T> & { isStale: boolean }> {
+		const payload = await this.serializeEntry(keyWithNamespace, value, setOptions)
+		const retention = setOptions ? setOptions.expiresIn + Math.max(setOptions.staleFor, setOptions.graceFor) : 0
+		const expiry = retention > 0 ? ['EX', String(retention)] : []
+		let existing: SerializedValue | null = null
+
+		if (this.storesBinary()) {
+			// The reply of the `GET` option is decoded as text, so binary payloads are read separately
+			while ((await this._guardedDriver.set(keyWithNamespace, payload, 'NX', ...expiry)) === null) {
+				existing = await this._guardedDriver.getBuffer(keyWithNamespace)
+
+				if (existing !== null) {
+					break
+				}
+			}
+		} else {
+			existing = await this._guardedDriver.set(keyWithNamespace, payload, 'NX', ...expiry, 'GET')
+		}
+
+		if (existing !== null && existing.length > 0) {
+			const entry = await this.deserializeEntry<T>(keyWithNamespace, existing, this._now())
+
+			if (this.isServable(entry)) {
+				return { created: false, value: entry.value, isStale: entry.isStale }
+			}
+		}
+
+		// The key was missing, or only held a value past its stale window kept for the grace window of `remember`
+		if (existing !== null) {
+			await this._guardedDriver.set(keyWithNamespace, payload, ...expiry)
+		}
+
+		await this.tagKey(keyWithNamespace, tags, retention)
+		this.writeL1(keyWithNamespace, payload, retention > 0 ? retention * 1000 : Number.POSITIVE_INFINITY, l1)
+		this.publishInvalidation({ type: 'keys', keys: [keyWithNamespace] })
+
+		return { created: true, value, isStale: false }
+	}
+
+	/**
+	 * Fires the events of a conditional write: a hit when the key already held a value, a miss and a set otherwise.
+	 *
+	 * @param operation - The name of the operation.
+	 * @param key - The key, without the namespace.
+	 * @param result - The result of the write, and whether the value it already held is stale.
+	 * @param setOptions - The set options of the written value, null when it is stored forever.
+	 * @param duration - How long the operation took in milliseconds.
+	 */
+	protected emitConditionalWrite<T>(
+		operation: string,
+		key: string,
+		{ created, value, isStale }: SetIfNotExistsResult<T> & { isStale: boolean },
+		setOptions: Required<SetOptions> | null,
+		duration: number
+	): void {
+		if (!created) {
+			this.emit('hit', { operation, key, value, isStale, duration })
+			return
+		}
+
+		this.emit('miss', { operation, key, duration })
+		this.emit('set', { operation, key, value, ttl: setOptions?.expiresIn ?? null, duration })
+	}
+
+	/**
+	 * Checks whether an entry can be returned by the read methods.
+	 * Values past their stale window are only kept in Redis for the grace window of `remember`.
+	 *
+	 * @param entry - The entry to check.
+	 * @returns True if the entry is fresh or stale.
+	 */
+	protected isServable(entry: CacheEntry<unknown>): boolean {
+		const state = entryState(entry, this._now())
+		return state === 'fresh' || state === 'stale'
+	}
+
+	/**
+	 * Checks a value read from the cache against its schema, and applies the `onInvalid` behavior when it does not match.
+	 *
+	 * @param key - The key of the value, without the namespace.
+	 * @param keyWithNamespace - The key, already prefixed with the namespace.
+	 * @param value - The value read from the cache.
+	 * @param options - The schema, and what happens when the value does not match it.
+	 * @returns A Promise that resolves to the validated or raw value, or null when the value is treated as a miss.
+	 * @throws {ValidationError} If the value does not match and `onInvalid` is `throw`.
+	 */
+	protected async validateValue<T>(
+		key: string,
+		keyWithNamespace: string,
+		value: unknown,
+		{ schema, onInvalid = this._onInvalid }: ValidationOptions<T>
+	): Promise<{ value: T } | null> {
+		if (!schema) {
+			return { value: value as T }
+		}
+
+		const result = await validate(schema, value)
+
+		if (result.valid) {
+			return { value: result.value }
+		}
+
+		const error = new ValidationError(key, result.issues)
+		this.log('warn', 'Invalid Value', { operation: 'validate', key: keyWithNamespace, value, error })
+
+		switch (onInvalid) {
+			case 'raw':
+				return { value: value as T }
+			case 'throw':
+				throw error
+			case 'miss':
+				await this.deleteKeys([keyWithNamespace])
+				this.invalidateL1({ type: 'keys', keys: [keyWithNamespace] })
+				return null
+		}
+	}
+
+	/**
+	 * Checks a value against its schema before it is written.
+	 *
+	 * @param key - The key of the value, without the namespace.
+	 * @param value - The value to write.
+	 * @param schema - The schema of the value, if any.
+	 * @returns A Promise that resolves to the validated value, as output by the schema.
+	 * @throws {ValidationError} If the value does not match the schema.
+	 */
+	protected async validateWrite<T>(key: string, value: T, schema?: Validator<T>): Promise<T> {
+		if (!schema) {
 			return value
 		}
 
-		await this.set(key, fallbackValue)
+		const result = await validate(schema, value)
+
+		if (!result.valid) {
+			throw new ValidationError(key, result.issues)
+		}
+
+		return result.value
+	}
+
+	/**
+	 * Deletes keys with batched `UNLINK` commands, which reclaim the memory of the values in the background.
+	 *
+	 * @param keysWithNamespace - The keys, already prefixed with the namespace.
+	 * @returns A Promise that resolves to the number of deleted keys.
+	 */
+	protected async deleteKeys(keysWithNamespace: string[]): Promise<number> {
+		const counts = (await Promise.all(
+			chunk(keysWithNamespace, this._batchSize).map((batch) => this._guardedDriver.send('UNLINK', batch))
+		)) as number[]
+
+		return counts.reduce((total, count) => total + count, 0)
+	}
+
+	/**
+	 * Iterates over the keys matching a pattern with `SCAN`, one batch at a time.
+	 * A key may be passed more than once when the keyspace is resized during the iteration.
+	 *
+	 * @param pattern - The pattern, already prefixed with the namespace.
+	 * @param callback - The function called with each non-empty batch of keys, awaited before the next batch is read.
+	 * @returns A Promise that resolves when the iteration is complete.
+	 */
+	protected async scanEach(pattern: string, callback: (keys: string[]) => Promise<void> | void): Promise<void> {
+		let cursor = '0'
+
+		do {
+			const [nextCursor, matchedKeys] = (await this._guardedDriver.scan(
+				cursor,
+				'MATCH',
+				pattern,
+				'COUNT',
+				this._batchSize
+			)) as [string, string[]]
+
+			cursor = nextCursor
+
+			if (matchedKeys.length > 0) {
+				await callback(matchedKeys)
+			}
+		} while (cursor !== '0')
+	}
+
+	/**
+	 * Sends the commands queued on a pipeline or a transaction, and keeps the L1 tier consistent with them.
+	 *
+	 * @param operations - The queued commands.
+	 * @param atomic - Whether the commands run atomically through a Lua script.
+	 * @returns A Promise that resolves to the results of the commands, in the order they were queued.
+	 */
+	protected async executePipeline(operations: PipelineOperation[], atomic: boolean): Promise<unknown[]> {
+		const startedAt = performance.now()
+		await this.syncGeneration()
+		const commands = await Promise.all(
+			operations.map(async (operation) => {
+				const keyWithNamespace = this.concatenateKey(operation.key)
+
+				switch (operation.type) {
+					case 'set': {
+						const setOptions = this.resolveSetOptions(operation.options ?? this._expiresIn)
+						const payload = await this.serializeEntry(keyWithNamespace, operation.value, setOptions)
+						const retention = setOptions.expiresIn + Math.max(setOptions.staleFor, setOptions.graceFor)
+
+						return {
+							args: ['SET', keyWithNamespace, payload, 'EX', String(retention)],
+							keyWithNamespace,
+							tags: setOptions.tags,
+							retention,
+							write: () => this.writeL1(keyWithNamespace, payload, retention * 1000, setOptions.l1),
+							parse: (reply: unknown) => reply,
+						}
+					}
+					case 'setForever': {
+						const payload = await this.serializeEntry(keyWithNamespace, operation.value, null)
+
+						return {
+							args: ['SET', keyWithNamespace, payload],
+							keyWithNamespace,
+							tags: operation.options.tags ?? [],
+							retention: 0,
+							write: () =>
+								this.writeL1(keyWithNamespace, payload, Number.POSITIVE_INFINITY, operation.options.l1),
+							parse: (reply: unknown) => reply,
+						}
+					}
+					case 'delete':
+						return {
+							args: ['DEL', keyWithNamespace],
+							keyWithNamespace,
+							parse: (reply: unknown) => reply === 1,
+						}
+					case 'increment':
+						return { args: ['INCR', keyWithNamespace], keyWithNamespace, parse: Number }
+					case 'decrement':
+						return { args: ['DECR', keyWithNamespace], keyWithNamespace, parse: Number }
+					case 'expire':
+					case 'expireNow': {
+						const expiresIn = operation.type === 'expire' ? operation.expiresIn : 0
+
+						return {
+							args: ['EXPIRE', keyWithNamespace, String(expiresIn)],
+							keyWithNamespace,
+							parse: (reply: unknown) => reply === 1,
+						}
+					}
+				}
+			})
+		)
+
+		// The Redis client accepts raw bytes for the payloads of binary serializers
+		let replies: unknown[]
+
+		if (atomic) {
+			// Every touched key is declared, and the tags are indexed by the same script as the writes they belong to
+			const scriptKeys = new Map<string, number>()
+			const position = (key: string) => {
+				if (!scriptKeys.has(key)) {
+					scriptKeys.set(key, scriptKeys.size + 1)
+				}
+
+				return String(scriptKeys.get(key))
+			}
+			const argv = commands.flatMap(({ args: [command, key, ...args], tags = [], retention = 0 }) => [
+				position(key as string),
+				String(args.length),
+				command,
+				...args,
+				String(tags.length),
+				String(retention),
+				...tags.map((tag) => position(this.tagKeyName(tag))),
+			]) as string[]
+
+			replies = (await this._guardedDriver.send('EVAL', [
+				TRANSACTION_SCRIPT,
+				String(scriptKeys.size),
+				...scriptKeys.keys(),
+				...argv,
+			])) as unknown[]
+		} else {
+			await Promise.all(
+				commands.map(({ keyWithNamespace, tags = [], retention = 0 }) =>
+					this.tagKey(keyWithNamespace, tags, retention)
+				)
+			)
+
+			replies = await Promise.all(
+				commands.map(({ args: [command, ...args] }) =>
+					this._guardedDriver.send(command as string, args as string[])
+				)
+			)
+		}
+
+		const keys = commands.map(({ keyWithNamespace }) => keyWithNamespace)
+
+		commands.forEach((command) => {
+			if (command.write) {
+				command.write()
+			} else {
+				this.applyInvalidation({ type: 'keys', keys: [command.keyWithNamespace] })
+			}
+		})
+		this.publishInvalidation({ type: 'keys', keys })
+
+		this.log('debug', atomic ? 'Transaction' : 'Pipeline', {
+			operation: atomic ? 'transaction' : 'pipeline',
+			keys,
+			duration: performance.now() - startedAt,
+		})
+
+		return commands.map((command, index) => command.parse(replies[index]))
+	}
+
+	/**
+	 * Applies the circuit breaker, the timeout, the abort signal and the retries to the configured storage driver.
+	 *
+	 * @returns The guarded driver, or the configured one when none of them is enabled.
+	 */
+	protected guardDriver(): StorageDriver {
+		if (!this._breaker && this._timeout <= 0 && !this._signal && !this._retry) {
+			return this._driver
+		}
+
+		return new CommandPolicy(this._timeout, this._signal, this._retry, this._breaker).wrap(this._driver)
+	}
+
+	/**
+	 * Fills the defaults of a retry policy.
+	 *
+	 * @param retry - The `retry` option.
+	 * @returns The retry policy, or null when the retries are disabled.
+	 */
+	protected retryPolicy(retry: boolean | RetryOptions): Required<RetryOptions> | null {
+		if (!retry) {
+			return null
+		}
+
+		const { retries = 3, minDelay = 50, maxDelay = 1000, jitter = true } = retry === true ? {} : retry
+		return { retries, minDelay, maxDelay, jitter }
+	}
+
+	/**
+	 * Runs an operation, falling back to a miss or a no-op when the storage fails or the circuit breaker is open.
+	 * Without the `resilience` option, and for the errors of the callers, the error is reported, then thrown as is.
+	 *
+	 * @param context - The name of the operation, and its key when it targets a single one.
+	 * @param fallback - The result of the operation when the storage is unavailable.
+	 * @param run - The function running the operation.
+	 * @returns A Promise that resolves to the result of the operation, or to its fallback.
+	 */
+	protected async failOpen<R>(
+		context: { operation: string; key?: string },
+		fallback: R,
+		run: () => Promise<R>
+	): Promise<R> {
+		try {
+			return await run()
+		} catch (error) {
+			this.absorbFailure(context, error)
+			return fallback
+		}
+	}
+
+	/**
+	 * Reports a storage failure absorbed by the `resilience` option, or reports and throws any other error.
+	 *
+	 * @param context - The name of the operation, and its key when it targets a single one.
+	 * @param error - The error thrown by the operation.
+	 * @throws {unknown} The error, if it is not a storage failure or the `resilience` option is disabled.
+	 */
+	protected absorbFailure(context: { operation: string; key?: string }, error: unknown): void {
+		const { operation } = context
+
+		if (!this._breaker?.isFailure(error)) {
+			this.reportFailure(context, error)
+			throw error
+		}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Set (Forever) -> ${keyWithNamespace}: ${value}`)
+		// The skipped commands are expected while the circuit is open, only the actual failures are reported
+		if (error instanceof CircuitOpenError) {
+			this.log('debug', 'Fail Open', { operation, error })
+		} else {
+			this.log('warn', 'Fail Open', { operation, error })
+			this.reportFailure(context, error)
 		}
-		return fallbackValue
 	}
 
 	/**
-	 * Increments the value of a key by one.
-	 *
-	 * @param {string} key - The key to increment.
-	 * @returns {Promise<number>} - A Promise that resolves to the new value after incrementing.
+	 * Splits the timeout, the abort signal and the retries off the options of a call.
 	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * const value = await cache.increment("myKey");
-	 * console.log(value); // Output: 1 (if the key does not exist in the cache)
+	 * @param options - The options of the call.
+	 * @returns The child created with `with` to run the call, or null when the call keeps the settings of this instance,
+	 * and the other options.
 	 */
-	public async increment(key: string): Promise<number> {
-		const keyWithNamespace = this.concatenateKey(key)
-		const value = await this._redisClient.incr(keyWithNamespace)
+	protected callWith<O>(options: O): [CacheXS | null, O] {
+		if (typeof options !== 'object' || options === null) {
+			return [null, options]
+		}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Increment -> ${keyWithNamespace}: ${value}`)
+		const { timeout, signal, retry, ...rest } = options as O & OperationOptions
+
+		if (timeout === undefined && signal === undefined && retry === undefined) {
+			return [null, options]
 		}
 
-		return value
+		return [this.with({ timeout, signal, retry }), rest as O]
 	}
 
 	/**
-	 * Decrements the value of a key by one.
+	 * Runs an operation without a fallback, reporting its failure before throwing it.
 	 *
-	 * @param {string} key - The key to decrement.
-	 * @returns {Promise<number>} - A Promise that resolves to the new value after decrementing.
+	 * @param context - The name of the operation, and its key when it targets a single one.
+	 * @param run - The function running the operation.
+	 * @returns A Promise that resolves to the result of the operation.
+	 * @throws {unknown} The error thrown by the operation.
+	 */
+	protected async reportErrors<R>(context: { operation: string; key?: string }, run: () => Promise<R>): Promise<R> {
+		try {
+			return await run()
+		} catch (error) {
+			this.reportFailure(context, error)
+			throw error
+		}
+	}
+
+	/**
+	 * Fires the `error` event of a failed operation, once per error even when it goes through nested operations,
+	 * such as the `set` of a `remember`.
 	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * const value = await cache.decrement("myKey");
-	 * console.log(value); // Output: -1 (if the key does not exist in the cache)
+	 * @param context - The name of the operation, and its key when it targets a single one.
+	 * @param error - The error thrown by the operation.
 	 */
-	public async decrement(key: string): Promise<number> {
-		const keyWithNamespace = this.concatenateKey(key)
-		const value = await this._redisClient.decr(keyWithNamespace)
+	protected reportFailure(context: { operation: string; key?: string }, error: unknown): void {
+		if (typeof error === 'object' && error !== null) {
+			if (this._reportedErrors.has(error)) {
+				return
+			}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Decrement -> ${keyWithNamespace}: ${value}`)
+			this._reportedErrors.add(error)
 		}
 
-		return value
+		this.emit('error', { ...context, error })
 	}
 
 	/**
-	 * Sets the expiration time for a key.
-	 * @param key - The key to set the expiration time for.
-	 * @param expiresIn - The expiration time in seconds.
-	 * @returns A Promise that resolves when the expiration time is set.
-	 * @example
-	 * const cache = new CacheXS();
-	 * await cache.expire("myKey", 60);
+	 * Logs a state change of the circuit breaker, then reports it through the `circuit` event and the callback.
+	 *
+	 * @param change - The state change.
+	 * @param onStateChange - The callback of the `resilience` option.
 	 */
+	protected reportCircuit(change: CircuitStateChange, onStateChange?: (change: CircuitStateChange) => void): void {
+		const { state, previousState, command, error } = change
 
-	public async expire(key: string, expiresIn: number): Promise<void> {
-		const keyWithNamespace = this.concatenateKey(key)
-		await this._redisClient.expire(keyWithNamespace, expiresIn)
+		this.log(state === 'open' ? 'warn' : 'info', `Circuit Breaker (${state})`, { operation: command, error })
+		this.emit('circuit', { operation: command, state, previousState, error })
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Expire -> ${keyWithNamespace}: ${expiresIn}`)
+		try {
+			onStateChange?.(change)
+		} catch (callbackError) {
+			this.log('error', 'Circuit Breaker Callback (Failed)', { operation: command, error: callbackError })
 		}
 	}
 
 	/**
-	 * Expires a key immediately.
-	 * @param key - The key to expire.
-	 * @returns A Promise that resolves when the key is expired.
-	 * @example
-	 * const cache = new CacheXS();
-	 * await cache.expireNow("myKey");
+	 * Calls the listeners of an event, a failing listener is logged without failing the operation.
+	 *
+	 * @param event - The name of the event.
+	 * @param payload - The payload of the event, without the namespace.
 	 */
-	public async expireNow(key: string): Promise<void> {
-		const keyWithNamespace = this.concatenateKey(key)
-		await this._redisClient.expire(keyWithNamespace, 0)
+	protected emit<E extends keyof CacheXSEvents>(event: E, payload: Omit<CacheXSEvents[E], 'namespace'>): void {
+		if (!this._events.hasListeners(event)) {
+			return
+		}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Expire Now -> ${keyWithNamespace}`)
+		const eventPayload = { ...payload, namespace: this._namespace } as CacheXSEvents[E]
+
+		for (const listener of this._events.listeners(event)) {
+			try {
+				listener(eventPayload)
+			} catch (error) {
+				this.log('error', 'Event Listener (Failed)', { operation: String(event), error })
+			}
 		}
 	}
 
 	/**
-	 * Gets the time to live for a key.
-	 * @param key - The key to get the time to live for.
-	 * @returns A Promise that resolves to the time to live in seconds.
-	 * @example
-	 * const cache = new CacheXS();
-	 * const ttl = await cache.ttl("myKey");
-	 * console.log(ttl); // Output: 60
+	 * Runs the hooks of a write in order, stopping at the first veto.
+	 *
+	 * @param event - The kind of write.
+	 * @param payload - The payload of the write, without the namespace, updated with the value replaced by the hooks.
+	 * @returns A Promise that resolves to true if the write can proceed, false if a hook vetoed it.
 	 */
-	public async ttl(key: string): Promise<number> {
-		const keyWithNamespace = this.concatenateKey(key)
-		const ttl = await this._redisClient.ttl(keyWithNamespace)
+	protected async runBeforeHooks<E extends keyof CacheXSBeforeEvents>(
+		event: E,
+		payload: Omit<CacheXSBeforeEvents[E], 'namespace'>
+	): Promise<boolean> {
+		if (!this._beforeHooks.hasListeners(event)) {
+			return true
+		}
+
+		const hookPayload = Object.assign(payload, { namespace: this._namespace }) as CacheXSBeforeEvents[E]
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> TTL -> ${keyWithNamespace}: ${ttl}`)
+		for (const hook of this._beforeHooks.listeners(event)) {
+			if ((await hook(hookPayload)) === false) {
+				this.log('debug', 'Write Vetoed', {
+					operation: payload.operation,
+					key: this.concatenateKey(payload.key),
+				})
+				return false
+			}
 		}
-		return ttl
+
+		return true
 	}
 
 	/**
-	 * Increments the value of a key by one and sets the expiration time for the key.
-	 * @param key - The key to increment.
-	 * @param expiresIn - The expiration time in seconds.
-	 * @returns A Promise that resolves to the new value after incrementing.
-	 * @example
-	 * const cache = new CacheXS();
-	 * const value = await cache.incrementWithExpiry("myKey", 60);
+	 * Writes a payload to the in-memory L1 tier, or evicts the previous copy when the write is skipped.
+	 *
+	 * @param keyWithNamespace - The key, already prefixed with the namespace.
+	 * @param payload - The serialized payload.
+	 * @param redisTtl - The remaining time to live in Redis in milliseconds, caps the L1 time to live.
+	 * @param enabled - Whether the payload is written, or only the previous copy evicted.
 	 */
-	public async incrementWithExpiry(key: string, expiresIn: number): Promise<number> {
-		const keyWithNamespace = this.concatenateKey(key)
-
-		const value = await this.increment(key)
-
-		if (value === 1) {
-			await this.expire(key, expiresIn)
+	protected writeL1(keyWithNamespace: string, payload: SerializedValue, redisTtl: number, enabled: boolean = true) {
+		if (!this._l1) {
+			return
 		}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Increment With Expiry -> ${keyWithNamespace}: ${value}`)
+		if (!enabled) {
+			this._l1.delete(keyWithNamespace)
+			return
 		}
 
-		return value
+		this._l1.set(keyWithNamespace, payload, Math.min(this._l1Ttl, redisTtl), byteLength(payload))
 	}
 
 	/**
-	 * Deletes a cache entry by its key.
+	 * Evicts entries from the in-memory L1 tier of this instance and of every other subscribed instance.
 	 *
-	 * @param key The key of the cache entry to delete.
-	 * @returns A Promise that resolves when the cache entry is deleted.
+	 * @param invalidation - The entries to evict.
+	 */
+	protected invalidateL1(invalidation: L1Invalidation): void {
+		this.applyInvalidation(invalidation)
+		this.publishInvalidation(invalidation)
+	}
+
+	/**
+	 * Evicts entries from the in-memory L1 tier of this instance.
 	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * await cache.delete("myKey");
+	 * @param invalidation - The entries to evict.
 	 */
-	public async delete(key: string): Promise<void> {
-		const keyWithNamespace = this.concatenateKey(key)
+	protected applyInvalidation(invalidation: L1Invalidation): void {
+		// A flush of a versioned namespace means its generation was bumped by another instance
+		if (invalidation.type === 'flush' && invalidation.namespace === this._namespace) {
+			this._generation.expiresAt = 0
+		}
 
-		await this._redisClient.del(keyWithNamespace)
+		if (!this._l1) {
+			return
+		}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Delete -> ${key}`)
+		switch (invalidation.type) {
+			case 'keys':
+				invalidation.keys.forEach((key) => this._l1?.delete(key))
+				break
+			case 'pattern':
+				this._l1.deleteMatching(globToRegExp(invalidation.pattern))
+				break
+			case 'flush':
+				if (invalidation.namespace.length > 0) {
+					this._l1.deleteMatching(new RegExp(`^${escapeRegExp(invalidation.namespace)}:`))
+				} else {
+					this._l1.clear()
+				}
+				break
 		}
 	}
 
 	/**
-	 * Deletes multiple cache entries specified by the given keys.
-	 *
-	 * @param keys - An array of keys representing the cache entries to be deleted.
-	 * @returns A Promise that resolves when the cache entries are successfully deleted.
-	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * const keys = ['key1', 'key2', 'key3'];
+	 * Publishes an invalidation message for the other instances, without waiting for its delivery.
 	 *
-	 * await cache.deleteMany(keys);
+	 * @param invalidation - The entries to evict.
 	 */
-	public async deleteMany(keys: string[]): Promise<void> {
-		if (keys.length === 0) {
+	protected publishInvalidation(invalidation: L1Invalidation): void {
+		if (this._invalidationChannel === null) {
 			return
 		}
 
-		const keysWithNamespace = keys.map((key) => this.concatenateKey(key))
+		const message = JSON.stringify({ ...invalidation, source: this._instanceId })
 
-		await Promise.all(keysWithNamespace.map((key) => this._redisClient.del(key)))
+		this._guardedDriver.publish(this._invalidationChannel, message).catch((error) => {
+			this.log('warn', 'Publish Invalidation (Failed)', { operation: 'publishInvalidation', error })
+			this.reportFailure({ operation: 'publishInvalidation' }, error)
+		})
+	}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Delete Multiple -> ${keys.join(', ')}`)
+	/**
+	 * Subscribes to the invalidation channel and evicts the entries described by the messages of the other instances.
+	 *
+	 * @param channel - The invalidation channel.
+	 * @param subscriberClient - The dedicated subscriber connection, duplicated from the Redis connection if missing.
+	 * @returns A Promise that resolves to the subscribed connection, or null if the subscription failed.
+	 */
+	protected async subscribeInvalidations(
+		channel: string,
+		subscriberClient?: StorageDriver
+	): Promise<StorageDriver | null> {
+		try {
+			const subscriber = subscriberClient ?? (await this._guardedDriver.duplicate())
+
+			await subscriber.subscribe(channel, (message) => {
+				try {
+					const { source, ...invalidation } = JSON.parse(message) as L1Invalidation & { source: string }
+
+					if (source !== this._instanceId) {
+						this.applyInvalidation(invalidation as L1Invalidation)
+					}
+				} catch {
+					// Ignore messages that were not published by CacheXS
+				}
+			})
+
+			this.log('debug', 'Subscribe Invalidations', { operation: 'subscribeInvalidations' })
+
+			return subscriber
+		} catch (error) {
+			this.log('error', 'Subscribe Invalidations (Failed)', { operation: 'subscribeInvalidations', error })
+			this.reportFailure({ operation: 'subscribeInvalidations' }, error)
+
+			return null
 		}
 	}
 
 	/**
-	 * Clears all cache entries in the CacheXS instance.
-	 * @returns A Promise that resolves when the cache is cleared.
-	 * @example
-	 * const cache = new CacheXS();
-	 * await cache.clear();
+	 * Stops listening to the invalidation channel, closing the subscriber connection if this instance opened it.
 	 */
-	public async clear(): Promise<void> {
-		const keys = await this._redisClient.keys(`${this._namespace}:*`)
+	protected unsubscribeInvalidations(): Promise<void> {
+		const subscriber = this._subscriber
+		const channel = this._invalidationChannel
+		const ownsSubscriber = this._ownsSubscriber
 
-		if (keys.length > 0) {
-			await Promise.all(keys.map((key) => this._redisClient.del(key)))
-		}
+		this._subscriber = null
+		this._ownsSubscriber = false
 
-		if (this._enableDebug) {
-			console.debug('CacheXS -> Clear All Cache')
+		if (!subscriber || channel === null) {
+			return Promise.resolve()
 		}
+
+		return subscriber
+			.then(async (client) => {
+				if (!client) {
+					return
+				}
+
+				if (ownsSubscriber) {
+					client.close()
+				} else {
+					await client.unsubscribe(channel)
+				}
+			})
+			.catch((error) => {
+				this.log('warn', 'Unsubscribe Invalidations (Failed)', { operation: 'unsubscribeInvalidations', error })
+			})
 	}
 
 	/**
-	 * Checks if a key exists in the cache.
-	 * @param key - The key to check.
-	 * @returns A promise that resolves to a boolean indicating whether the key exists in the cache.
-	 * @example
-	 * const cache = new CacheXS();
-	 * const exists = await cache.exists("myKey");
-	 * console.log(exists); // true or false
+	 * Reads the generation of a versioned namespace from Redis once the cached one is older than `refreshInterval`.
+	 * Concurrent operations share the same read.
+	 *
+	 * @returns A Promise that resolves when the generation is up to date.
 	 */
-	public async exists(key: string): Promise<boolean> {
-		const keyWithNamespace = this.concatenateKey(key)
-		const isExists = await this._redisClient.exists(keyWithNamespace)
+	protected async syncGeneration(): Promise<void> {
+		const state = this._generation
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Has -> ${keyWithNamespace}? ${isExists}`)
+		if (!this._versioning || this._now() < state.expiresAt) {
+			return
 		}
 
-		return isExists
+		state.load ??= this._guardedDriver
+			.get(this.generationKey())
+			.then((generation) => {
+				state.value = Number(generation ?? 0)
+				state.expiresAt = this._now() + (this._versioning?.refreshInterval ?? 0)
+			})
+			.finally(() => {
+				state.load = null
+			})
+
+		await state.load
 	}
 
 	/**
-	 * Checks if a key is missing in the cache.
-	 *
-	 * @param key - The key to check.
-	 * @returns A promise that resolves to a boolean indicating whether the key is missing or not.
+	 * Gets the key of the generation counter of the namespace, outside of the versioned keys.
 	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * const isMissing = await cache.missing("myKey");
-	 * console.log(isMissing); // true or false
+	 * @returns The generation key, prefixed with the namespace.
 	 */
-	public async missing(key: string): Promise<boolean> {
-		const keyWithNamespace = this.concatenateKey(key)
-		const isExists = await this._redisClient.exists(keyWithNamespace)
+	protected generationKey(): string {
+		return this._namespace.length > 0 ? `${this._namespace}:generation` : 'generation'
+	}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Missing -> ${keyWithNamespace}? ${isExists}`)
+	/**
+	 * Stops the background sweeper of the previous generations.
+	 */
+	protected stopSweeper(): void {
+		if (this._sweeper) {
+			clearInterval(this._sweeper)
+			this._sweeper = null
 		}
-
-		return !isExists
 	}
 
 	/**
-	 * Finds Redis keys matching a pattern using SCAN instead of KEYS
-	 *
-	 * This function is a more efficient alternative to Redis.keys() for production environments.
-	 * It uses the SCAN command which is non-blocking and designed for production use.
-	 *
-	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
-	 * @param {number} count - The number of keys to scan per iteration (default: 100)
-	 * @returns {Promise<string[]>} Array of matching keys (without namespace prefix)
-	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * // Find all user keys
-	 * const userKeys = await cache.scan("user:*");
-	 * console.log(userKeys); // ["user:123", "user:456"]
+	 * Serializes a value, wrapping it with its logical expiry timestamps when it has a stale or grace window,
+	 * and encrypts the payload when encryption is enabled.
 	 *
-	 * // Find keys with custom count
-	 * const sessionKeys = await cache.scan("session:*", 50);
+	 * @param keyWithNamespace - The key the payload is stored under, already prefixed with the namespace.
+	 * @param value - The value to serialize.
+	 * @param options - The resolved set options, or null when the value is stored forever.
+	 * @returns A Promise that resolves to the payload to store in Redis.
 	 */
-	public async scan(pattern: string, count: number = 100): Promise<string[]> {
-		let cursor = '0'
-		const keys: string[] = []
-		const patternWithNamespace = this.concatenateKey(pattern)
-
-		do {
-			// SCAN returns an array where the first element is the new cursor
-			// and the second element is an array of matched keys
-			const [nextCursor, matchedKeys] = (await this._redisClient.scan(
-				cursor,
-				'MATCH',
-				patternWithNamespace,
-				'COUNT',
-				count
-			)) as [string, string[]]
-
-			cursor = nextCursor
-
-			// Remove namespace prefix from results
-			const keysWithoutNamespace = matchedKeys.map((key) =>
-				this._namespace.length > 0 ? key.replace(`${this._namespace}:`, '') : key
-			)
-			keys.push(...keysWithoutNamespace)
-		} while (cursor !== '0')
-
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Scan -> Pattern: ${pattern}, Found: ${keys.length} keys`)
+	protected async serializeEntry(
+		keyWithNamespace: string,
+		value: unknown,
+		options: Required<SetOptions> | null
+	): Promise<SerializedValue> {
+		let data = value
+
+		if (options && (options.staleFor > 0 || options.graceFor > 0)) {
+			const freshUntil = this._now() + options.expiresIn * 1000
+			data = wrapEntry(value, freshUntil, options.staleFor, options.graceFor)
 		}
 
-		return keys
+		const payload = this._serializer.serialize(data)
+		return this._encryptor ? this._encryptor.encrypt(payload, keyWithNamespace) : payload
 	}
 
 	/**
-	 * Finds Redis keys matching a pattern using the KEYS command
+	 * Decrypts a payload when encryption is enabled, and deserializes it into a cache entry.
 	 *
-	 * Note: This method uses the KEYS command which blocks Redis while executing.
-	 * For production environments with large datasets, consider using scan() instead.
-	 *
-	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
-	 * @returns {Promise<string[]>} Array of matching keys (without namespace prefix)
+	 * @param keyWithNamespace - The key the payload was read from, already prefixed with the namespace.
+	 * @param payload - The payload read from Redis or from the L1 tier.
+	 * @param now - The current timestamp in milliseconds, used to tell whether the entry is stale.
+	 * @returns A Promise that resolves to the cache entry.
+	 * @throws {EncryptionError} If the payload cannot be decrypted.
+	 */
+	protected async deserializeEntry<T>(
+		keyWithNamespace: string,
+		payload: SerializedValue,
+		now: number
+	): Promise<CacheEntry<T>> {
+		const decrypted = this._encryptor ? await this._encryptor.decrypt(payload, keyWithNamespace) : payload
+		return unwrapEntry<T>(this._serializer.deserialize(decrypted), now)
+	}
+
+	/**
+	 * Checks whether the payloads stored in Redis are raw bytes, which must be read back with `getBuffer`.
+	 * Encrypted payloads are always text.
 	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * // Find all user keys
-	 * const userKeys = await cache.keys("user:*");
-	 * console.log(userKeys); // ["user:123", "user:456"]
+	 * @returns True if the serializer is binary and encryption is disabled.
 	 */
-	public async keys(pattern: string): Promise<string[]> {
-		const patternWithNamespace = this.concatenateKey(pattern)
-		const keys = await this._redisClient.keys(patternWithNamespace)
+	protected storesBinary(): boolean {
+		return this._serializer.binary === true && !this._encryptor
+	}
 
-		// Remove namespace prefix from results
-		const keysWithoutNamespace = keys.map((key) =>
-			this._namespace.length > 0 ? key.replace(`${this._namespace}:`, '') : key
-		)
+	/**
+	 * Normalizes the options accepted by `set`, where a number is the expiration time in seconds.
+	 *
+	 * @param options - The expiration time in seconds, or the set options.
+	 * @returns The set options with their defaults applied.
+	 */
+	protected resolveSetOptions(options: number | SetOptions): Required<SetOptions> {
+		const {
+			expiresIn = this._expiresIn,
+			staleFor = 0,
+			graceFor = 0,
+			l1 = true,
+			tags = [],
+		} = typeof options === 'number' ? { expiresIn: options } : options
+
+		return { expiresIn, staleFor, graceFor, l1, tags }
+	}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Keys -> Pattern: ${pattern}, Found: ${keysWithoutNamespace.length} keys`)
+	/**
+	 * Adds a key to the index set of each of its tags, extending the expiration of the sets to the one of the key.
+	 *
+	 * @param keyWithNamespace - The key, already prefixed with the namespace.
+	 * @param tags - The tags of the key.
+	 * @param ttl - The time to live of the key in seconds, 0 when it never expires.
+	 */
+	protected async tagKey(keyWithNamespace: string, tags: string[], ttl: number): Promise<void> {
+		if (tags.length === 0) {
+			return
 		}
 
-		return keysWithoutNamespace
+		const tagKeys = tags.map((tag) => this.tagKeyName(tag))
+		await this._guardedDriver.send('EVAL', [
+			TAG_KEY_SCRIPT,
+			String(tagKeys.length),
+			...tagKeys,
+			keyWithNamespace,
+			String(ttl),
+		])
 	}
 
 	/**
-	 * Retrieves multiple values by pattern matching
-	 *
-	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
-	 * @param {boolean} useScan - Whether to use SCAN (true) or KEYS (false) command (default: true)
-	 * @returns {Promise<{[key: string]: T | null}>} Object with keys and their values
+	 * Gets the key of the index set of a tag.
 	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * // Get all user data
-	 * const userData = await cache.getByPattern<User>("user:*");
-	 * console.log(userData); // { "user:123": {...}, "user:456": {...} }
+	 * @param tag - The tag.
+	 * @returns The tag index key, prefixed with `tag:` and the namespace.
 	 */
-	public async getByPattern<T>(pattern: string, useScan: boolean = true): Promise<{ [key: string]: T | null }> {
-		const matchingKeys = useScan ? await this.scan(pattern) : await this.keys(pattern)
-		const result: { [key: string]: T | null } = {}
-
-		// Use Promise.all for concurrent fetching
-		const values = await Promise.all(matchingKeys.map((key) => this.get<T>(key)))
-
-		matchingKeys.forEach((key, index) => {
-			result[key] = values[index]
-		})
+	protected tagKeyName(tag: string): string {
+		return this.concatenateKey(`tag:${tag}`)
+	}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Get By Pattern -> Pattern: ${pattern}, Retrieved: ${matchingKeys.length} items`)
-		}
+	/**
+	 * Acquires a lock with `SET NX PX` and a random owner token.
+	 *
+	 * @param lockKey - The lock key, already prefixed with the namespace.
+	 * @param ttl - How long in milliseconds the lock is held before it expires on its own.
+	 * @returns A Promise that resolves to the lock, or null if the lock is held by someone else.
+	 */
+	protected async acquireLock(lockKey: string, ttl: number): Promise<Lock | null> {
+		const token = crypto.randomUUID()
+		const result = await this._guardedDriver.set(lockKey, token, 'NX', 'PX', String(ttl))
 
-		return result
+		return result === 'OK' ? new Lock(this._guardedDriver, lockKey, token, ttl) : null
 	}
 
 	/**
-	 * Deletes keys matching a pattern
-	 *
-	 * @param {string} pattern - The pattern to match (e.g., "user:*", "session:*:active")
-	 * @param {boolean} useScan - Whether to use SCAN (true) or KEYS (false) command (default: true)
-	 * @returns {Promise<number>} Number of keys deleted
+	 * Reads the raw payloads stored under several keys with batched `MGET` commands,
+	 * or with pipelined `GET` commands returning raw bytes when the serializer is binary.
 	 *
-	 * @example
-	 * const cache = new CacheXS();
-	 * // Delete all expired sessions
-	 * const deletedCount = await cache.deleteByPattern("session:*:expired");
-	 * console.log(`Deleted ${deletedCount} expired sessions`);
+	 * @param keysWithNamespace - The keys, already prefixed with the namespace.
+	 * @returns A Promise that resolves to the payloads in the same order as the keys, with null for the missing ones.
 	 */
-	public async deleteByPattern(pattern: string, useScan: boolean = true): Promise<number> {
-		const matchingKeys = useScan ? await this.scan(pattern) : await this.keys(pattern)
-
-		if (matchingKeys.length > 0) {
-			await this.deleteMany(matchingKeys)
+	protected async readPayloads(keysWithNamespace: string[]): Promise<(SerializedValue | null)[]> {
+		if (keysWithNamespace.length === 0) {
+			return []
 		}
 
-		if (this._enableDebug) {
-			console.debug(`CacheXS -> Delete By Pattern -> Pattern: ${pattern}, Deleted: ${matchingKeys.length} keys`)
+		if (this.storesBinary()) {
+			return Promise.all(keysWithNamespace.map((key) => this._guardedDriver.getBuffer(key)))
 		}
 
-		return matchingKeys.length
+		const batches = await Promise.all(
+			chunk(keysWithNamespace, this._batchSize).map((batch) => this._guardedDriver.mget(...batch))
+		)
+
+		return batches.flat()
 	}
 
 	/**
-	 * Gets the Redis connection.
+	 * Gets the Redis connection, with every command of the Bun client. When another storage driver is configured,
+	 * it is the `redisClient` option or the default Bun connection, and the driver is reached through `driver`.
 	 *
-	 * @returns {Redis} The Redis connection.
+	 * @returns {RedisClient} The Redis connection.
 	 * @example
 	 * const cache = new CacheXS();
 	 * const redis = cache.redisClient;
-	 * redis.set('key', 'value');
+	 * redis.hset('key', 'field', 'value');
 	 */
 	public get redisClient(): RedisClient {
 		return this._redisClient
 	}
 
+	/**
+	 * Gets the storage driver the commands of the cache are sent to, guarded by the circuit breaker, the timeout
+	 * and the retries when they are enabled.
+	 *
+	 * @returns {StorageDriver} The guarded storage driver.
+	 * @example
+	 * const cache = new CacheXS({ timeout: 100 });
+	 * await cache.driver.send('EVAL', [script, '1', 'key']); // fails with a CommandTimeoutError after 100ms
+	 */
+	public get driver(): StorageDriver {
+		return this._guardedDriver
+	}
+
 	/**
 	 * Gets the Redis URL.
 	 *
@@ -812,4 +3775,52 @@ export default class CacheXS {
 	public get isDebugEnabled(): boolean {
 		return this._enableDebug
 	}
+
+	/**
+	 * Gets the serializer used to encode and decode the cached values.
+	 *
+	 * @returns {Serializer} The serializer instance.
+	 *
+	 * @example
+	 * const cache = new CacheXS();
+	 * console.log(cache.serializer); // Output: TaggedSerializer {}
+	 */
+	public get serializer(): Serializer {
+		return this._serializer
+	}
+
+	/**
+	 * Gets the hit and miss counters of the in-memory L1 tier and of Redis (L2).
+	 *
+	 * @returns {TierStats} A snapshot of the counters.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ l1: { maxEntries: 1000 } });
+	 * console.log(cache.tierStats); // Output: { l1: { hits: 10, misses: 2 }, l2: { hits: 1, misses: 1 } }
+	 */
+	public get tierStats(): TierStats {
+		return { l1: { ...this._tierStats.l1 }, l2: { ...this._tierStats.l2 } }
+	}
+
+	/**
+	 * Gets the state of the circuit breaker guarding the storage, to surface the degraded mode of the `resilience` option.
+	 *
+	 * @returns {CacheHealth} A snapshot of the circuit breaker.
+	 *
+	 * @example
+	 * const cache = new CacheXS({ resilience: true });
+	 * console.log(cache.health); // Output: { state: 'closed', degraded: false, failures: 0, openedAt: null, retryAt: null, lastError: null }
+	 */
+	public get health(): CacheHealth {
+		const state = this._breaker?.state ?? 'closed'
+
+		return {
+			state,
+			degraded: state !== 'closed',
+			failures: this._breaker?.failures ?? 0,
+			openedAt: this._breaker?.openedAt ?? null,
+			retryAt: this._breaker?.retryAt ?? null,
+			lastError: this._breaker?.lastError ?? null,
+		}
+	}
 }
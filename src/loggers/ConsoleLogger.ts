@@ -0,0 +1,26 @@
+import { Logger, LogRecord } from '../types/Logger'
+
+/**
+ * Writes the log records to the console, used when `enableDebug` is set without a logger.
+ *
+ * @example
+ * const cache = new CacheXS({ logger: new ConsoleLogger(), logLevel: 'warn' });
+ */
+export default class ConsoleLogger implements Logger {
+	public debug(record: LogRecord, message: string): void {
+		console.debug(message, record)
+	}
+
+	public info(record: LogRecord, message: string): void {
+		// eslint-disable-next-line no-console
+		console.info(message, record)
+	}
+
+	public warn(record: LogRecord, message: string): void {
+		console.warn(message, record)
+	}
+
+	public error(record: LogRecord, message: string): void {
+		console.error(message, record)
+	}
+}
@@ -0,0 +1 @@
+export { default as ConsoleLogger } from './ConsoleLogger'
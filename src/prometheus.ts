@@ -0,0 +1,60 @@
+import { MetricsSnapshot } from './types/MetricsSnapshot'
+
+const COUNTERS = [
+	['hits', 'cachexs_hits_total', 'Number of reads that found a value.'],
+	['misses', 'cachexs_misses_total', 'Number of reads that found no value.'],
+	['sets', 'cachexs_sets_total', 'Number of values written.'],
+	['deletes', 'cachexs_deletes_total', 'Number of keys deleted.'],
+	['errors', 'cachexs_errors_total', 'Number of failed operations.'],
+] as const
+
+const escapeLabel = (value: string): string => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+
+const labels = (values: Record<string, string>): string =>
+	`{${Object.entries(values)
+		.map(([name, value]) => `${name}="${escapeLabel(value)}"`)
+		.join(',')}}`
+
+/**
+ * Renders metrics snapshots in the Prometheus text exposition format.
+ * Several snapshots, such as the ones of several cache instances, are rendered under the same metric families.
+ *
+ * @param snapshots - The snapshots returned by `CacheXS.metrics`.
+ * @returns The Prometheus text exposition.
+ *
+ * @example
+ * app.get('/metrics', (req, res) => {
+ *   res.type('text/plain; version=0.0.4').send(renderPrometheus(usersCache.metrics(), sessionsCache.metrics()));
+ * });
+ */
+export const renderPrometheus = (...snapshots: MetricsSnapshot[]): string => {
+	const namespaces = snapshots.flatMap((snapshot) => Object.entries(snapshot))
+	const lines: string[] = []
+
+	for (const [field, name, help] of COUNTERS) {
+		lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`)
+
+		for (const [namespace, metrics] of namespaces) {
+			lines.push(`${name}${labels({ namespace })} ${metrics[field]}`)
+		}
+	}
+
+	const histogram = 'cachexs_operation_duration_seconds'
+	lines.push(`# HELP ${histogram} Duration of the cache operations in seconds.`, `# TYPE ${histogram} histogram`)
+
+	for (const [namespace, metrics] of namespaces) {
+		for (const [operation, { count, sum, buckets }] of Object.entries(metrics.operations)) {
+			for (const { le, count: bucketCount } of buckets) {
+				lines.push(`${histogram}_bucket${labels({ namespace, operation, le: String(le) })} ${bucketCount}`)
+			}
+
+			lines.push(
+				`${histogram}_bucket${labels({ namespace, operation, le: '+Inf' })} ${count}`,
+				`${histogram}_sum${labels({ namespace, operation })} ${sum}`,
+				`${histogram}_count${labels({ namespace, operation })} ${count}`
+			)
+		}
+	}
+
+	return `${lines.join('\n')}\n`
+}
@@ -0,0 +1,231 @@
+/**
+ * Deletes a lock only when it is still owned by the given token.
+ *
+ * KEYS[1] - The lock key.
+ * ARGV[1] - The owner token.
+ */
+export const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+	return redis.call('DEL', KEYS[1])
+end
+return 0
+`
+
+/**
+ * Resets the expiration of a lock only when it is still owned by the given token.
+ *
+ * KEYS[1] - The lock key.
+ * ARGV[1] - The owner token.
+ * ARGV[2] - The new time to live in milliseconds.
+ */
+export const EXTEND_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+	return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`
+
+/**
+ * Adds a key to the index set of a tag, and extends the expiration of the set so it lives as long as its keys.
+ * Shared by the scripts indexing the tags.
+ */
+const INDEX_TAG_FUNCTION = `
+local function indexTag(tagKey, key, ttl)
+	local existed = redis.call('EXISTS', tagKey) == 1
+	redis.call('SADD', tagKey, key)
+	if ttl == 0 then
+		redis.call('PERSIST', tagKey)
+	else
+		local current = redis.call('TTL', tagKey)
+		if not existed or (current >= 0 and current < ttl) then
+			redis.call('EXPIRE', tagKey, ttl)
+		end
+	end
+end
+`
+
+/**
+ * Adds a key to the index set of each of its tags, and extends the expiration of each set so it lives as long as its keys.
+ *
+ * KEYS    - The tag index keys.
+ * ARGV[1] - The tagged key.
+ * ARGV[2] - The time to live of the tagged key in seconds, 0 when it never expires.
+ */
+export const TAG_KEY_SCRIPT = `${INDEX_TAG_FUNCTION}
+local ttl = tonumber(ARGV[2])
+for _, key in ipairs(KEYS) do
+	indexTag(key, ARGV[1], ttl)
+end
+return #KEYS
+`
+
+/**
+ * Deletes every key indexed by the given tags, then the tag index sets themselves.
+ *
+ * KEYS - The tag index keys.
+ * Returns the number of deleted keys followed by the indexed keys.
+ */
+export const INVALIDATE_TAGS_SCRIPT = `
+local result = { 0 }
+for _, tagKey in ipairs(KEYS) do
+	local members = redis.call('SMEMBERS', tagKey)
+	for i = 1, #members, 500 do
+		result[1] = result[1] + redis.call('DEL', unpack(members, i, math.min(i + 499, #members)))
+	end
+	for _, member in ipairs(members) do
+		result[#result + 1] = member
+	end
+	redis.call('DEL', tagKey)
+end
+return result
+`
+
+/**
+ * Runs a list of commands atomically and returns their replies in order, indexing the tags of their keys in the same run.
+ * A failing command aborts the script, the commands run before it are not rolled back.
+ *
+ * KEYS - Every key the commands touch, their own keys and the index keys of their tags, each one declared once.
+ * ARGV - The commands, each one encoded as the position of its key in KEYS, its number of other arguments,
+ *        the command name and those arguments, then its number of tags, the time to live of its key in seconds
+ *        (0 when it never expires) and the positions of the tag index keys in KEYS.
+ */
+export const TRANSACTION_SCRIPT = `${INDEX_TAG_FUNCTION}
+local replies = {}
+local index = 1
+while index <= #ARGV do
+	local key = KEYS[tonumber(ARGV[index])]
+	local count = tonumber(ARGV[index + 1])
+	replies[#replies + 1] = redis.call(ARGV[index + 2], key, unpack(ARGV, index + 3, index + 2 + count))
+	index = index + 3 + count
+	local tagCount, ttl = tonumber(ARGV[index]), tonumber(ARGV[index + 1])
+	for position = index + 2, index + 1 + tagCount do
+		indexTag(KEYS[tonumber(ARGV[position])], key, ttl)
+	end
+	index = index + 2 + tagCount
+end
+return replies
+`
+
+/**
+ * Counts a hit in a fixed window, started by the first hit and expiring with it.
+ *
+ * KEYS[1] - The counter key.
+ * ARGV[1] - The maximum number of hits per window.
+ * ARGV[2] - The window length in milliseconds.
+ * ARGV[3] - The number of hits to count.
+ * Returns whether the hits were allowed, the remaining hits, the reset time and the retry delay in milliseconds.
+ */
+export const FIXED_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = time[1] * 1000 + math.floor(time[2] / 1000)
+local limit, window, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+	ttl = window
+end
+if count + cost > limit then
+	return { 0, math.max(limit - count, 0), now + ttl, ttl }
+end
+count = redis.call('INCRBY', KEYS[1], cost)
+redis.call('PEXPIRE', KEYS[1], ttl)
+return { 1, limit - count, now + ttl, 0 }
+`
+
+/**
+ * Logs every hit in a sorted set scored by its time, and counts the hits of the last window.
+ *
+ * KEYS[1] - The log key.
+ * ARGV[1] - The maximum number of hits per window.
+ * ARGV[2] - The window length in milliseconds.
+ * ARGV[3] - The number of hits to count.
+ * ARGV[4] - A unique identifier for the logged hits.
+ * Returns whether the hits were allowed, the remaining hits, the reset time and the retry delay in milliseconds.
+ */
+export const SLIDING_WINDOW_LOG_SCRIPT = `
+local time = redis.call('TIME')
+local now = time[1] * 1000 + math.floor(time[2] / 1000)
+local limit, window, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+if count + cost > limit then
+	local newest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+	local freeing = redis.call('ZRANGE', KEYS[1], count + cost - limit - 1, count + cost - limit - 1, 'WITHSCORES')
+	return { 0, math.max(limit - count, 0), tonumber(newest[2]) + window, tonumber(freeing[2]) + window - now }
+end
+for i = 1, cost do
+	redis.call('ZADD', KEYS[1], now, ARGV[4] .. ':' .. i)
+end
+redis.call('PEXPIRE', KEYS[1], window)
+return { 1, limit - count - cost, now + window, 0 }
+`
+
+/**
+ * Counts the hits of the current and the previous fixed windows in a hash,
+ * and weights the previous one by how much of it still overlaps the sliding window.
+ *
+ * KEYS[1] - The counters key.
+ * ARGV[1] - The maximum number of hits per window.
+ * ARGV[2] - The window length in milliseconds.
+ * ARGV[3] - The number of hits to count.
+ * Returns whether the hits were allowed, the remaining hits, the reset time and the retry delay in milliseconds.
+ */
+export const SLIDING_WINDOW_COUNTER_SCRIPT = `
+local time = redis.call('TIME')
+local now = time[1] * 1000 + math.floor(time[2] / 1000)
+local limit, window, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local index = math.floor(now / window)
+local elapsed = now - index * window
+local current = tonumber(redis.call('HGET', KEYS[1], index) or '0')
+local previous = tonumber(redis.call('HGET', KEYS[1], index - 1) or '0')
+local estimated = previous * (window - elapsed) / window + current
+local resetAt = (index + 1) * window
+if estimated + cost > limit then
+	local retryAfter
+	if current + cost <= limit then
+		-- The previous window drains enough before this one ends
+		retryAfter = math.ceil(window - elapsed - (limit - current - cost) * window / previous)
+	else
+		-- This window becomes the weighted previous one, and has to drain in turn
+		retryAfter = window - elapsed + math.ceil(window - (limit - cost) * window / current)
+	end
+	return { 0, math.max(math.floor(limit - estimated), 0), resetAt, retryAfter }
+end
+redis.call('HINCRBY', KEYS[1], index, cost)
+for _, field in ipairs(redis.call('HKEYS', KEYS[1])) do
+	if tonumber(field) < index - 1 then
+		redis.call('HDEL', KEYS[1], field)
+	end
+end
+redis.call('PEXPIRE', KEYS[1], window * 2)
+return { 1, math.floor(limit - estimated - cost), resetAt, 0 }
+`
+
+/**
+ * Takes tokens from a bucket refilled continuously, up to its capacity, over the window.
+ *
+ * KEYS[1] - The bucket key.
+ * ARGV[1] - The capacity of the bucket.
+ * ARGV[2] - The time in milliseconds to refill an empty bucket.
+ * ARGV[3] - The number of tokens to take.
+ * Returns whether the tokens were taken, the remaining tokens, the time the bucket is full again and the retry delay in milliseconds.
+ */
+export const TOKEN_BUCKET_SCRIPT = `
+local time = redis.call('TIME')
+local now = time[1] * 1000 + math.floor(time[2] / 1000)
+local limit, window, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or limit
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(limit, tokens + (now - updatedAt) * limit / window)
+local retryAfter = 0
+if tokens >= cost then
+	tokens = tokens - cost
+else
+	retryAfter = math.ceil((cost - tokens) * window / limit)
+end
+local refill = math.ceil((limit - tokens) * window / limit)
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.max(refill, 1))
+return { retryAfter == 0 and 1 or 0, math.floor(tokens), now + refill, retryAfter }
+`
@@ -0,0 +1,29 @@
+import { SerializedValue, Serializer } from '../types/Serializer'
+
+/**
+ * Serializes values with plain `JSON.stringify` / `JSON.parse`.
+ *
+ * Values that JSON cannot represent (Date, Map, Set, BigInt, ...) are not preserved,
+ * use the `TaggedSerializer` when the read value must have the same type as the written one.
+ *
+ * @example
+ * const cache = new CacheXS({ serializer: new JsonSerializer() });
+ */
+export default class JsonSerializer implements Serializer {
+	public readonly binary = false
+
+	public serialize(value: unknown): string {
+		return JSON.stringify(value ?? null)
+	}
+
+	public deserialize<T = unknown>(payload: SerializedValue): T {
+		const text = typeof payload === 'string' ? payload : new TextDecoder().decode(payload)
+
+		try {
+			return JSON.parse(text) as T
+		} catch {
+			// Values written by older versions or directly through the Redis client may not be JSON
+			return text as T
+		}
+	}
+}
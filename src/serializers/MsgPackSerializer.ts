@@ -0,0 +1,500 @@
+import { SerializedValue, Serializer } from '../types/Serializer'
+
+/**
+ * MessagePack extension types used by the serializer.
+ * `-1` is the standard timestamp type, the positive ones are specific to CacheXS.
+ */
+const EXT_TIMESTAMP = -1
+const EXT_BIGINT = 1
+const EXT_MAP = 2
+const EXT_SET = 3
+
+/**
+ * A compact binary serializer based on the MessagePack format.
+ *
+ * Dates are written with the standard timestamp extension, while BigInt, Map and Set use
+ * CacheXS specific extension types so they are restored with their original type.
+ * Payloads are binary, so counters (`increment`/`decrement`) cannot be used on keys written with it.
+ *
+ * @example
+ * const cache = new CacheXS({ serializer: new MsgPackSerializer() });
+ * await cache.set('visitors', new Set(['a', 'b']));
+ */
+export default class MsgPackSerializer implements Serializer {
+	public readonly binary = true
+
+	public serialize(value: unknown): Uint8Array {
+		const writer = new Writer()
+		this.encode(writer, value)
+		return writer.toBytes()
+	}
+
+	public deserialize<T = unknown>(payload: SerializedValue): T {
+		const bytes = typeof payload === 'string' ? new TextEncoder().encode(payload) : payload
+		const reader = new Reader(bytes)
+		return this.decode(reader) as T
+	}
+
+	protected encode(writer: Writer, value: unknown): Writer {
+		switch (typeof value) {
+			case 'undefined':
+				return writer.byte(0xc0)
+			case 'boolean':
+				return writer.byte(value ? 0xc3 : 0xc2)
+			case 'number':
+				return this.encodeNumber(writer, value)
+			case 'string':
+				return this.encodeString(writer, value)
+			case 'bigint':
+				return this.encodeExt(writer, EXT_BIGINT, new TextEncoder().encode(value.toString()))
+			case 'object':
+				break
+			default:
+				return writer.byte(0xc0)
+		}
+
+		if (value === null) {
+			return writer.byte(0xc0)
+		}
+
+		if (value instanceof Date) {
+			return this.encodeExt(writer, EXT_TIMESTAMP, this.timestamp(value))
+		}
+
+		if (value instanceof Uint8Array) {
+			return this.encodeBinary(writer, value)
+		}
+
+		if (value instanceof Map) {
+			return this.encodeExt(writer, EXT_MAP, this.serialize([...value].flat()))
+		}
+
+		if (value instanceof Set) {
+			return this.encodeExt(writer, EXT_SET, this.serialize([...value]))
+		}
+
+		if (Array.isArray(value)) {
+			this.header(writer, value.length, 0x90, 0xdc, 0xdd, 16)
+			value.forEach((item) => this.encode(writer, item))
+			return writer
+		}
+
+		const entries = Object.entries(value).filter(
+			([, item]) => item !== undefined && typeof item !== 'function' && typeof item !== 'symbol'
+		)
+
+		this.header(writer, entries.length, 0x80, 0xde, 0xdf, 16)
+
+		for (const [key, item] of entries) {
+			this.encodeString(writer, key)
+			this.encode(writer, item)
+		}
+
+		return writer
+	}
+
+	protected encodeNumber(writer: Writer, value: number): Writer {
+		if (!Number.isSafeInteger(value)) {
+			return writer.byte(0xcb).float64(value)
+		}
+
+		if (value >= 0) {
+			if (value < 0x80) return writer.byte(value)
+			if (value <= 0xff) return writer.byte(0xcc).uint8(value)
+			if (value <= 0xffff) return writer.byte(0xcd).uint16(value)
+			if (value <= 0xffffffff) return writer.byte(0xce).uint32(value)
+			return writer.byte(0xcf).uint64(value)
+		}
+
+		if (value >= -0x20) return writer.int8(value)
+		if (value >= -0x80) return writer.byte(0xd0).int8(value)
+		if (value >= -0x8000) return writer.byte(0xd1).int16(value)
+		if (value >= -0x80000000) return writer.byte(0xd2).int32(value)
+		return writer.byte(0xd3).int64(value)
+	}
+
+	protected encodeString(writer: Writer, value: string): Writer {
+		const bytes = new TextEncoder().encode(value)
+
+		if (bytes.length < 32) {
+			writer.byte(0xa0 | bytes.length)
+		} else if (bytes.length <= 0xff) {
+			writer.byte(0xd9).uint8(bytes.length)
+		} else {
+			this.header(writer, bytes.length, 0, 0xda, 0xdb, 0)
+		}
+
+		return writer.bytes(bytes)
+	}
+
+	protected encodeBinary(writer: Writer, value: Uint8Array): Writer {
+		if (value.length <= 0xff) {
+			writer.byte(0xc4).uint8(value.length)
+		} else {
+			this.header(writer, value.length, 0, 0xc5, 0xc6, 0)
+		}
+
+		return writer.bytes(value)
+	}
+
+	protected encodeExt(writer: Writer, type: number, data: Uint8Array): Writer {
+		if (data.length <= 0xff) {
+			writer.byte(0xc7).uint8(data.length)
+		} else if (data.length <= 0xffff) {
+			writer.byte(0xc8).uint16(data.length)
+		} else {
+			writer.byte(0xc9).uint32(data.length)
+		}
+
+		return writer.int8(type).bytes(data)
+	}
+
+	/**
+	 * Writes a length header using the fixed format when the length fits in it, or the 16/32 bits formats otherwise.
+	 */
+	protected header(
+		writer: Writer,
+		length: number,
+		fixed: number,
+		format16: number,
+		format32: number,
+		fixedLimit: number
+	): Writer {
+		if (length < fixedLimit) {
+			return writer.byte(fixed | length)
+		}
+
+		if (length <= 0xffff) {
+			return writer.byte(format16).uint16(length)
+		}
+
+		return writer.byte(format32).uint32(length)
+	}
+
+	/**
+	 * Encodes a date with the 96 bits variant of the MessagePack timestamp extension.
+	 */
+	protected timestamp(date: Date): Uint8Array {
+		const milliseconds = date.getTime()
+		const seconds = Math.floor(milliseconds / 1000)
+		const nanoseconds = (milliseconds - seconds * 1000) * 1e6
+
+		return new Writer().uint32(nanoseconds).int64(seconds).toBytes()
+	}
+
+	protected decode(reader: Reader): unknown {
+		const type = reader.uint8()
+
+		if (type < 0x80) return type
+		if (type >= 0xe0) return type - 0x100
+		if (type >= 0xa0 && type <= 0xbf) return reader.string(type & 0x1f)
+		if (type >= 0x90 && type <= 0x9f) return this.decodeArray(reader, type & 0x0f)
+		if (type >= 0x80 && type <= 0x8f) return this.decodeObject(reader, type & 0x0f)
+
+		switch (type) {
+			case 0xc0:
+				return null
+			case 0xc2:
+				return false
+			case 0xc3:
+				return true
+			case 0xc4:
+				return reader.bytes(reader.uint8())
+			case 0xc5:
+				return reader.bytes(reader.uint16())
+			case 0xc6:
+				return reader.bytes(reader.uint32())
+			case 0xc7:
+				return this.decodeExt(reader, reader.uint8())
+			case 0xc8:
+				return this.decodeExt(reader, reader.uint16())
+			case 0xc9:
+				return this.decodeExt(reader, reader.uint32())
+			case 0xca:
+				return reader.float32()
+			case 0xcb:
+				return reader.float64()
+			case 0xcc:
+				return reader.uint8()
+			case 0xcd:
+				return reader.uint16()
+			case 0xce:
+				return reader.uint32()
+			case 0xcf:
+				return reader.uint64()
+			case 0xd0:
+				return reader.int8()
+			case 0xd1:
+				return reader.int16()
+			case 0xd2:
+				return reader.int32()
+			case 0xd3:
+				return reader.int64()
+			case 0xd4:
+				return this.decodeExt(reader, 1)
+			case 0xd5:
+				return this.decodeExt(reader, 2)
+			case 0xd6:
+				return this.decodeExt(reader, 4)
+			case 0xd7:
+				return this.decodeExt(reader, 8)
+			case 0xd8:
+				return this.decodeExt(reader, 16)
+			case 0xd9:
+				return reader.string(reader.uint8())
+			case 0xda:
+				return reader.string(reader.uint16())
+			case 0xdb:
+				return reader.string(reader.uint32())
+			case 0xdc:
+				return this.decodeArray(reader, reader.uint16())
+			case 0xdd:
+				return this.decodeArray(reader, reader.uint32())
+			case 0xde:
+				return this.decodeObject(reader, reader.uint16())
+			case 0xdf:
+				return this.decodeObject(reader, reader.uint32())
+			default:
+				throw new TypeError(`MsgPackSerializer -> Unknown type byte 0x${type.toString(16)}`)
+		}
+	}
+
+	protected decodeArray(reader: Reader, length: number): unknown[] {
+		const items: unknown[] = []
+
+		for (let i = 0; i < length; i++) {
+			items.push(this.decode(reader))
+		}
+
+		return items
+	}
+
+	protected decodeObject(reader: Reader, length: number): Record<string, unknown> {
+		const object: Record<string, unknown> = {}
+
+		for (let i = 0; i < length; i++) {
+			const key = String(this.decode(reader))
+			object[key] = this.decode(reader)
+		}
+
+		return object
+	}
+
+	protected decodeExt(reader: Reader, length: number): unknown {
+		const type = reader.int8()
+		const data = reader.bytes(length)
+
+		switch (type) {
+			case EXT_TIMESTAMP:
+				return this.decodeTimestamp(data)
+			case EXT_BIGINT:
+				return BigInt(new TextDecoder().decode(data))
+			case EXT_MAP: {
+				const flat = this.deserialize<unknown[]>(data)
+				const map = new Map()
+
+				for (let i = 0; i < flat.length; i += 2) {
+					map.set(flat[i], flat[i + 1])
+				}
+
+				return map
+			}
+			case EXT_SET:
+				return new Set(this.deserialize<unknown[]>(data))
+			default:
+				throw new TypeError(`MsgPackSerializer -> Unknown extension type ${type}`)
+		}
+	}
+
+	protected decodeTimestamp(data: Uint8Array): Date {
+		const reader = new Reader(data)
+
+		switch (data.length) {
+			case 4:
+				return new Date(reader.uint32() * 1000)
+			case 8: {
+				const high = reader.uint32()
+				const low = reader.uint32()
+				// The upper 30 bits hold the nanoseconds, the lower 34 bits hold the seconds
+				const nanoseconds = high >>> 2
+				const seconds = (high & 0x3) * 0x100000000 + low
+				return new Date(seconds * 1000 + nanoseconds / 1e6)
+			}
+			default: {
+				const nanoseconds = reader.uint32()
+				const seconds = reader.int64()
+				return new Date(seconds * 1000 + nanoseconds / 1e6)
+			}
+		}
+	}
+}
+
+/**
+ * A growable byte buffer used while encoding.
+ */
+class Writer {
+	protected buffer = new Uint8Array(64)
+	protected view = new DataView(this.buffer.buffer)
+	protected length = 0
+
+	public byte(value: number): this {
+		return this.uint8(value)
+	}
+
+	public uint8(value: number): this {
+		this.ensure(1)
+		this.view.setUint8(this.length, value)
+		this.length += 1
+		return this
+	}
+
+	public int8(value: number): this {
+		this.ensure(1)
+		this.view.setInt8(this.length, value)
+		this.length += 1
+		return this
+	}
+
+	public uint16(value: number): this {
+		this.ensure(2)
+		this.view.setUint16(this.length, value)
+		this.length += 2
+		return this
+	}
+
+	public int16(value: number): this {
+		this.ensure(2)
+		this.view.setInt16(this.length, value)
+		this.length += 2
+		return this
+	}
+
+	public uint32(value: number): this {
+		this.ensure(4)
+		this.view.setUint32(this.length, value)
+		this.length += 4
+		return this
+	}
+
+	public int32(value: number): this {
+		this.ensure(4)
+		this.view.setInt32(this.length, value)
+		this.length += 4
+		return this
+	}
+
+	public uint64(value: number): this {
+		this.ensure(8)
+		this.view.setBigUint64(this.length, BigInt(value))
+		this.length += 8
+		return this
+	}
+
+	public int64(value: number): this {
+		this.ensure(8)
+		this.view.setBigInt64(this.length, BigInt(value))
+		this.length += 8
+		return this
+	}
+
+	public float64(value: number): this {
+		this.ensure(8)
+		this.view.setFloat64(this.length, value)
+		this.length += 8
+		return this
+	}
+
+	public bytes(value: Uint8Array): this {
+		this.ensure(value.length)
+		this.buffer.set(value, this.length)
+		this.length += value.length
+		return this
+	}
+
+	public toBytes(): Uint8Array {
+		return this.buffer.slice(0, this.length)
+	}
+
+	protected ensure(size: number): void {
+		if (this.length + size <= this.buffer.length) {
+			return
+		}
+
+		const buffer = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size))
+		buffer.set(this.buffer.subarray(0, this.length))
+		this.buffer = buffer
+		this.view = new DataView(buffer.buffer)
+	}
+}
+
+/**
+ * A cursor over a byte array used while decoding.
+ */
+class Reader {
+	protected view: DataView
+	protected offset = 0
+
+	constructor(protected buffer: Uint8Array) {
+		this.view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+	}
+
+	public uint8(): number {
+		return this.view.getUint8(this.advance(1))
+	}
+
+	public int8(): number {
+		return this.view.getInt8(this.advance(1))
+	}
+
+	public uint16(): number {
+		return this.view.getUint16(this.advance(2))
+	}
+
+	public int16(): number {
+		return this.view.getInt16(this.advance(2))
+	}
+
+	public uint32(): number {
+		return this.view.getUint32(this.advance(4))
+	}
+
+	public int32(): number {
+		return this.view.getInt32(this.advance(4))
+	}
+
+	public uint64(): number {
+		return Number(this.view.getBigUint64(this.advance(8)))
+	}
+
+	public int64(): number {
+		return Number(this.view.getBigInt64(this.advance(8)))
+	}
+
+	public float32(): number {
+		return this.view.getFloat32(this.advance(4))
+	}
+
+	public float64(): number {
+		return this.view.getFloat64(this.advance(8))
+	}
+
+	public bytes(length: number): Uint8Array {
+		const start = this.advance(length)
+		return this.buffer.slice(start, start + length)
+	}
+
+	public string(length: number): string {
+		return new TextDecoder().decode(this.bytes(length))
+	}
+
+	protected advance(size: number): number {
+		const start = this.offset
+
+		if (start + size > this.buffer.length) {
+			throw new RangeError('MsgPackSerializer -> Unexpected end of payload')
+		}
+
+		this.offset += size
+		return start
+	}
+}
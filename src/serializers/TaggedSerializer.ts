@@ -0,0 +1,140 @@
+import { SerializedValue, Serializer } from '../types/Serializer'
+
+const TYPE = '$type'
+const VALUE = '$value'
+
+type TaggedValue = { [TYPE]: string; [VALUE]?: unknown }
+
+/**
+ * The default serializer of CacheXS.
+ *
+ * Produces JSON where every value JSON cannot represent is wrapped in a `{ "$type", "$value" }` tag,
+ * so Date, Map, Set, BigInt, Uint8Array, NaN and Infinity come back with the same type they were written with.
+ *
+ * @example
+ * const cache = new CacheXS({ serializer: new TaggedSerializer() });
+ * await cache.set('createdAt', new Date());
+ * const createdAt = await cache.get<Date>('createdAt'); // -> Date instance
+ */
+export default class TaggedSerializer implements Serializer {
+	public readonly binary = false
+
+	public serialize(value: unknown): string {
+		return JSON.stringify(this.encode(value ?? null))
+	}
+
+	public deserialize<T = unknown>(payload: SerializedValue): T {
+		const text = typeof payload === 'string' ? payload : new TextDecoder().decode(payload)
+		let parsed: unknown
+
+		try {
+			parsed = JSON.parse(text)
+		} catch {
+			// Values written by older versions or directly through the Redis client may not be JSON
+			return text as T
+		}
+
+		return this.decode(parsed) as T
+	}
+
+	/**
+	 * Converts a value into a JSON-safe structure, tagging the values JSON cannot represent.
+	 */
+	protected encode(value: unknown): unknown {
+		switch (typeof value) {
+			case 'bigint':
+				return { [TYPE]: 'BigInt', [VALUE]: value.toString() }
+			case 'number':
+				return Number.isFinite(value) ? value : { [TYPE]: 'Number', [VALUE]: String(value) }
+			case 'object':
+				break
+			default:
+				return value
+		}
+
+		if (value === null) {
+			return null
+		}
+
+		if (value instanceof Date) {
+			return { [TYPE]: 'Date', [VALUE]: Number.isNaN(value.getTime()) ? null : value.toISOString() }
+		}
+
+		if (value instanceof Map) {
+			return { [TYPE]: 'Map', [VALUE]: [...value].map(([k, v]) => [this.encode(k), this.encode(v)]) }
+		}
+
+		if (value instanceof Set) {
+			return { [TYPE]: 'Set', [VALUE]: [...value].map((item) => this.encode(item)) }
+		}
+
+		if (value instanceof Uint8Array) {
+			return { [TYPE]: 'Uint8Array', [VALUE]: Buffer.from(value).toString('base64') }
+		}
+
+		if (Array.isArray(value)) {
+			return value.map((item) => (item === undefined ? null : this.encode(item)))
+		}
+
+		const encoded: Record<string, unknown> = {}
+
+		for (const [key, item] of Object.entries(value)) {
+			if (item !== undefined && typeof item !== 'function' && typeof item !== 'symbol') {
+				encoded[key] = this.encode(item)
+			}
+		}
+
+		// Escape plain objects that would otherwise be mistaken for a tag
+		return TYPE in encoded ? { [TYPE]: 'Object', [VALUE]: encoded } : encoded
+	}
+
+	/**
+	 * Restores the values tagged by `encode`.
+	 */
+	protected decode(value: unknown): unknown {
+		if (Array.isArray(value)) {
+			return value.map((item) => this.decode(item))
+		}
+
+		if (value === null || typeof value !== 'object') {
+			return value
+		}
+
+		if (this.isTagged(value)) {
+			const tagged = value[VALUE]
+
+			switch (value[TYPE]) {
+				case 'BigInt':
+					return BigInt(tagged as string)
+				case 'Number':
+					return Number(tagged)
+				case 'Date':
+					return new Date(tagged === null ? Number.NaN : (tagged as string))
+				case 'Map':
+					return new Map((tagged as [unknown, unknown][]).map(([k, v]) => [this.decode(k), this.decode(v)]))
+				case 'Set':
+					return new Set((tagged as unknown[]).map((item) => this.decode(item)))
+				case 'Uint8Array':
+					return new Uint8Array(Buffer.from(tagged as string, 'base64'))
+				case 'Object':
+					return this.decodeObject(tagged as Record<string, unknown>)
+			}
+		}
+
+		return this.decodeObject(value as Record<string, unknown>)
+	}
+
+	protected decodeObject(value: Record<string, unknown>): Record<string, unknown> {
+		const decoded: Record<string, unknown> = {}
+
+		for (const [key, item] of Object.entries(value)) {
+			decoded[key] = this.decode(item)
+		}
+
+		return decoded
+	}
+
+	protected isTagged(value: object): value is TaggedValue {
+		return TYPE in value && typeof (value as TaggedValue)[TYPE] === 'string'
+	}
+}
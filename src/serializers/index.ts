@@ -0,0 +1,3 @@
+export { default as JsonSerializer } from './JsonSerializer'
+export { default as MsgPackSerializer } from './MsgPackSerializer'
+export { default as TaggedSerializer } from './TaggedSerializer'
@@ -0,0 +1,70 @@
+import type CacheXS from '../index'
+import { RecordedOperation } from '../types/RecordedOperation'
+
+/**
+ * Captures every read, write and deletion made through a cache and its scopes, in order, from its events.
+ *
+ * @example
+ * const recorder = new OperationRecorder();
+ * recorder.listen(cache);
+ * await service.loadUser(1);
+ * expect(recorder.calls('set', 'user:1')).toHaveLength(1);
+ */
+export default class OperationRecorder {
+	/**
+	 * The recorded operations, from the oldest to the newest.
+	 */
+	protected _operations: RecordedOperation[] = []
+
+	/**
+	 * Records the hits, misses, sets and deletes fired by a cache.
+	 *
+	 * @param cache - The cache to listen to.
+	 * @returns A function removing the listeners.
+	 */
+	public listen(cache: CacheXS): () => void {
+		const offs = [
+			cache.on('hit', ({ operation, namespace, key, value }) =>
+				this._operations.push({ type: 'get', operation, namespace, key, hit: true, value })
+			),
+			cache.on('miss', ({ operation, namespace, key }) =>
+				this._operations.push({ type: 'get', operation, namespace, key, hit: false })
+			),
+			cache.on('set', ({ operation, namespace, key, value, ttl }) =>
+				this._operations.push({ type: 'set', operation, namespace, key, value, ttl })
+			),
+			cache.on('delete', ({ operation, namespace, keys }) =>
+				keys.forEach((key) => this._operations.push({ type: 'delete', operation, namespace, key }))
+			),
+		]
+
+		return () => offs.forEach((off) => off())
+	}
+
+	/**
+	 * Gets the recorded operations of a type, optionally restricted to a key.
+	 *
+	 * @param type - The kind of access.
+	 * @param key - The key, without the namespace.
+	 * @returns The matching operations, from the oldest to the newest.
+	 */
+	public calls(type: RecordedOperation['type'], key?: string): RecordedOperation[] {
+		return this._operations.filter(
+			(operation) => operation.type === type && (key === undefined || operation.key === key)
+		)
+	}
+
+	/**
+	 * Forgets the recorded operations.
+	 */
+	public clear(): void {
+		this._operations = []
+	}
+
+	/**
+	 * Gets a copy of the recorded operations, from the oldest to the newest.
+	 */
+	public get operations(): RecordedOperation[] {
+		return [...this._operations]
+	}
+}
@@ -0,0 +1,177 @@
+import { MemoryDriver } from '../drivers'
+import { CacheAssertionError, CacheXSError } from '../errors'
+import CacheXS from '../index'
+import { CacheXSConfig } from '../types/CacheXSConfig'
+import { TestCacheConfig } from '../types/TestCacheConfig'
+
+import OperationRecorder from './OperationRecorder'
+
+/**
+ * A cache backed by a `MemoryDriver` and a fake clock, so the tests control the expiration of the values
+ * with `advanceTime` instead of sleeping, and verify the operations recorded by `recorder`.
+ *
+ * @example
+ * const cache = new TestCache({ namespace: 'users' });
+ * await cache.set('user:1', user, 60);
+ * cache.advanceTime(61_000);
+ * await cache.expectNotCached('user:1');
+ */
+export default class TestCache extends CacheXS {
+	/**
+	 * The current time of the fake clock in milliseconds, shared with the scopes of the cache.
+	 */
+	protected _clock: { time: number }
+
+	/**
+	 * The recorder of the operations made through the cache and its scopes.
+	 */
+	protected _recorder = new OperationRecorder()
+
+	/**
+	 * Constructs a new test cache with an empty storage.
+	 *
+	 * @param config - The configuration of the cache, without the connection settings, and the initial time of the clock.
+	 */
+	constructor({ startTime = Date.now(), ...config }: TestCacheConfig = {}) {
+		const clock = { time: startTime }
+		const now = () => clock.time
+		super({ ...config, driver: new MemoryDriver({ now }), now })
+
+		this._clock = clock
+		this._recorder.listen(this)
+	}
+
+	/**
+	 * Moves the fake clock forward, expiring the values whose time to live elapsed.
+	 *
+	 * @param milliseconds - The time to advance the clock by.
+	 * @returns The new time of the clock in milliseconds.
+	 * @throws {CacheXSError} If the time is negative.
+	 *
+	 * @example
+	 * cache.advanceTime(60_000);
+	 */
+	public advanceTime(milliseconds: number): number {
+		if (milliseconds < 0) {
+			throw new CacheXSError('CacheXS -> The clock cannot go backwards')
+		}
+
+		this._clock.time += milliseconds
+
+		return this._clock.time
+	}
+
+	/**
+	 * Asserts that a servable value is cached under a key.
+	 *
+	 * @param key - The key of the value.
+	 * @returns A Promise that resolves to the cached value.
+	 * @throws {CacheAssertionError} If the key is missing, or its value expired.
+	 *
+	 * @example
+	 * expect(await cache.expectCached('user:1')).toStrictEqual(user);
+	 */
+	public async expectCached<T>(key: string): Promise<T> {
+		const entry = await this.peek<T>(key)
+
+		if (!entry) {
+			throw new CacheAssertionError(key, `Expected "${key}" to be cached, but it is missing`)
+		}
+
+		return entry.value
+	}
+
+	/**
+	 * Asserts that no servable value is cached under a key.
+	 *
+	 * @param key - The key of the value.
+	 * @returns A Promise that resolves when the assertion passed.
+	 * @throws {CacheAssertionError} If a value is cached under the key.
+	 *
+	 * @example
+	 * await cache.expectNotCached('user:1');
+	 */
+	public async expectNotCached(key: string): Promise<void> {
+		if (await this.peek(key)) {
+			throw new CacheAssertionError(key, `Expected "${key}" not to be cached, but it is`)
+		}
+	}
+
+	/**
+	 * Asserts that the time to live of a key, in seconds, is exactly a value or within an inclusive range.
+	 * The time to live of the values stored with `staleFor` or `graceFor` includes those windows.
+	 *
+	 * @param key - The key of the value.
+	 * @param range - The expected time to live, or its minimum and maximum.
+	 * @returns A Promise that resolves to the time to live of the key.
+	 * @throws {CacheAssertionError} If the key is missing, never expires, or its time to live is out of the range.
+	 *
+	 * @example
+	 * await cache.expectTtl('user:1', [55, 60]);
+	 */
+	public async expectTtl(key: string, range: number | [min: number, max: number]): Promise<number> {
+		const [min, max] = typeof range === 'number' ? [range, range] : range
+		const ttl = await this._driver.ttl(this.concatenateKey(key))
+
+		if (ttl === -2) {
+			throw new CacheAssertionError(key, `Expected "${key}" to expire in ${min}-${max}s, but it is missing`)
+		}
+
+		if (ttl === -1) {
+			throw new CacheAssertionError(key, `Expected "${key}" to expire in ${min}-${max}s, but it never expires`)
+		}
+
+		if (ttl < min || ttl > max) {
+			throw new CacheAssertionError(
+				key,
+				`Expected "${key}" to expire in ${min}-${max}s, but it expires in ${ttl}s`
+			)
+		}
+
+		return ttl
+	}
+
+	/**
+	 * Keeps the in-memory storage and the fake clock when the cache is reconfigured.
+	 */
+	protected configureCacheXS(config: CacheXSConfig): void {
+		super.configureCacheXS({ ...config, driver: config.driver ?? this._driver, now: config.now ?? this._now })
+	}
+
+	/**
+	 * Reads the entry of a key without firing events, so the assertions are not recorded.
+	 */
+	protected async peek<T>(key: string): Promise<{ value: T } | null> {
+		await this.syncGeneration()
+		const keyWithNamespace = this.concatenateKey(key)
+		const [payload] = await this.readPayloads([keyWithNamespace])
+
+		if (payload === null) {
+			return null
+		}
+
+		const entry = await this.deserializeEntry<T>(keyWithNamespace, payload, this._now())
+		return this.isServable(entry) ? entry : null
+	}
+
+	/**
+	 * Gets the current time of the fake clock in milliseconds.
+	 */
+	public get time(): number {
+		return this._clock.time
+	}
+
+	/**
+	 * Gets the recorder of the operations made through the cache and its scopes.
+	 */
+	public get recorder(): OperationRecorder {
+		return this._recorder
+	}
+
+	/**
+	 * Gets the in-memory storage of the cache.
+	 */
+	public get driver(): MemoryDriver {
+		return this._driver as MemoryDriver
+	}
+}
@@ -0,0 +1,9 @@
+import { CacheAssertionError } from '../errors'
+import { RecordedOperation } from '../types/RecordedOperation'
+import { TestCacheConfig } from '../types/TestCacheConfig'
+
+import OperationRecorder from './OperationRecorder'
+import TestCache from './TestCache'
+
+export { CacheAssertionError, OperationRecorder, TestCache }
+export type { RecordedOperation, TestCacheConfig }
@@ -1,19 +1,43 @@
 import { RedisClient } from 'bun'
 import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
 
-import CacheXS from '../index'
+import Encryptor from '../Encryptor'
+import EventEmitter from '../EventEmitter'
+import CacheXS, {
+	Cached,
+	CacheEvict,
+	CacheXSError,
+	CircuitOpenError,
+	CircuitStateChange,
+	CommandTimeoutError,
+	EncryptionError,
+	JsonSerializer,
+	LogLevel,
+	LogRecord,
+	LockTimeoutError,
+	MemoryDriver,
+	MsgPackSerializer,
+	renderPrometheus,
+	StandardSchema,
+	TaggedSerializer,
+	ValidationError,
+} from '../index'
+import LruCache from '../LruCache'
+import Metrics from '../Metrics'
+import { CacheAssertionError, OperationRecorder, TestCache } from '../testing'
+import { validate } from '../validation'
 
 const redisUrl = 'redis://localhost:6379'
 
 describe('Create Cache Instance', () => {
 	beforeAll(async () => {
 		const cache = new CacheXS()
-		await cache.clear()
+		await cache.clear({ all: true })
 	})
 
 	afterAll(async () => {
 		const cache = new CacheXS()
-		await cache.clear()
+		await cache.clear({ all: true })
 	})
 
 	it('Should create a new instance for Cache class with default configuration', async () => {
@@ -184,8 +208,9 @@ describe('Set Cache', () => {
 	it('Should set a value in cache if it does not exist with nested namespace', async () => {
 		const cache = new CacheXS({ namespace: 'test' })
 
+		await cache.delete('foo:foo:bar')
 		const result = await cache.setIfNotExists('foo:foo:bar', 'baz')
-		expect(result).toBe('OK')
+		expect(result).toStrictEqual({ created: true, value: 'baz' })
 		const value = await cache.get<string>('foo:foo:bar')
 		expect(value).toBe('baz')
 	})
@@ -194,7 +219,7 @@ describe('Set Cache', () => {
 		const cache = new CacheXS()
 		await cache.set('foo', 'bar')
 		const result = await cache.setIfNotExists('foo', 'zoo')
-		expect(result).toBe('EXIST')
+		expect(result).toStrictEqual({ created: false, value: 'bar' })
 		const value = await cache.get<string>('foo')
 		expect(value).toBe('bar')
 	})
@@ -474,7 +499,7 @@ describe('Pattern-Based Key Operations', () => {
 	// Setup test data before each test
 	const setupTestData = async (cache: CacheXS) => {
 		// Clear any existing data first
-		await cache.clear()
+		await cache.clear({ all: true })
 
 		await cache.set('user:123', { name: 'John', age: 30 })
 		await cache.set('user:456', { name: 'Jane', age: 25 })
@@ -568,7 +593,7 @@ describe('Pattern-Based Key Operations', () => {
 
 		it('Should work with single character wildcards', async () => {
 			const cache = new CacheXS()
-			await cache.clear()
+			await cache.clear({ all: true })
 			await cache.set('test:a', 'value1')
 			await cache.set('test:b', 'value2')
 			await cache.set('test:ab', 'value3')
@@ -604,7 +629,7 @@ describe('Pattern-Based Key Operations', () => {
 
 		it('Should handle mixed data types in getByPattern', async () => {
 			const cache = new CacheXS()
-			await cache.clear()
+			await cache.clear({ all: true })
 			await cache.set('mixed:string', 'hello')
 			await cache.set('mixed:number', 42)
 			await cache.set('mixed:object', { key: 'value' })
@@ -625,7 +650,7 @@ describe('Pattern-Based Key Operations', () => {
 
 		it('Should handle null values in getByPattern', async () => {
 			const cache = new CacheXS()
-			await cache.clear()
+			await cache.clear({ all: true })
 			await cache.set('test:exists', 'value')
 			// Simulate a key that might have expired or been deleted
 			await cache.delete('test:exists')
@@ -674,7 +699,7 @@ describe('Pattern-Based Key Operations', () => {
 
 		it('Should handle partial pattern matches in deleteByPattern', async () => {
 			const cache = new CacheXS()
-			await cache.clear()
+			await cache.clear({ all: true })
 			await cache.set('prefix:test:1', 'value1')
 			await cache.set('prefix:test:2', 'value2')
 			await cache.set('prefix:prod:1', 'value3')
@@ -709,7 +734,7 @@ describe('Pattern-Based Key Operations', () => {
 
 		it('Should work with empty namespace', async () => {
 			const cache = new CacheXS({ namespace: '' })
-			await cache.clear()
+			await cache.clear({ all: true })
 			await cache.set('global:key1', 'value1')
 			await cache.set('global:key2', 'value2')
 
@@ -740,7 +765,7 @@ describe('Pattern-Based Key Operations', () => {
 
 		it('Should handle very long patterns', async () => {
 			const cache = new CacheXS()
-			await cache.clear()
+			await cache.clear({ all: true })
 			const longPrefix = 'very:long:prefix:with:many:levels:and:more:levels'
 			await cache.set(`${longPrefix}:key1`, 'value1')
 			await cache.set(`${longPrefix}:key2`, 'value2')
@@ -751,7 +776,7 @@ describe('Pattern-Based Key Operations', () => {
 
 		it('Should handle concurrent pattern operations', async () => {
 			const cache = new CacheXS()
-			await cache.clear()
+			await cache.clear({ all: true })
 
 			// Set up test data
 			const promises = []
@@ -773,3 +798,1835 @@ describe('Pattern-Based Key Operations', () => {
 		})
 	})
 })
+
+describe('Serializers', () => {
+	const value = {
+		string: '123',
+		number: 123,
+		date: new Date('2024-01-01T00:00:00.000Z'),
+		map: new Map<string, unknown>([['foo', new Date(0)]]),
+		set: new Set([1, 2, 3]),
+		bigint: BigInt('9007199254740993'),
+		bytes: new Uint8Array([1, 2, 3]),
+		nested: [{ $type: 'Date', $value: 'not a tag' }],
+	}
+
+	it('Should round trip rich types with the tagged serializer', () => {
+		const serializer = new TaggedSerializer()
+		expect(serializer.deserialize(serializer.serialize(value))).toStrictEqual(value)
+		expect(serializer.deserialize(serializer.serialize(Number.NaN))).toBeNaN()
+	})
+
+	it('Should round trip rich types with the msgpack serializer', () => {
+		const serializer = new MsgPackSerializer()
+		expect(serializer.deserialize(serializer.serialize(value))).toStrictEqual(value)
+		expect(serializer.deserialize(serializer.serialize(-70000.5))).toBe(-70000.5)
+		expect(serializer.deserialize(serializer.serialize('x'.repeat(70000)))).toBe('x'.repeat(70000))
+	})
+
+	it('Should fallback to the raw string for values that are not JSON', () => {
+		expect(new TaggedSerializer().deserialize('bar')).toBe('bar')
+		expect(new JsonSerializer().deserialize('bar')).toBe('bar')
+	})
+
+	it('Should preserve the type of the stored value with the default serializer', async () => {
+		const cache = new CacheXS()
+
+		await cache.set('foo', '123')
+		expect(await cache.get('foo')).toBe('123')
+
+		await cache.set('foo', value)
+		expect(await cache.get<typeof value>('foo')).toStrictEqual(value)
+
+		await cache.setForever('foo', new Set(['bar']))
+		expect(await cache.get<Set<string>>('foo')).toStrictEqual(new Set(['bar']))
+	})
+
+	it('Should store and read values with a binary serializer', async () => {
+		const cache = new CacheXS({ serializer: new MsgPackSerializer() })
+
+		await cache.set('foo', value)
+		expect(await cache.get<typeof value>('foo')).toStrictEqual(value)
+
+		const result = await cache.getByPattern<typeof value>('foo')
+		expect(result['foo']).toStrictEqual(value)
+	})
+
+	it('Should use a custom serializer', async () => {
+		const cache = new CacheXS({
+			serializer: {
+				serialize: (data) => `custom:${JSON.stringify(data)}`,
+				deserialize: <T>(payload: string | Uint8Array) => JSON.parse(String(payload).slice(7)) as T,
+			},
+		})
+
+		await cache.set('foo', { bar: 'baz' })
+		expect(await cache.redisClient.get('foo')).toBe('custom:{"bar":"baz"}')
+		expect(await cache.get('foo')).toStrictEqual({ bar: 'baz' })
+	})
+})
+
+describe('Remember', () => {
+	it('Should compute the value on a miss and return the cached value on a hit', async () => {
+		const cache = new CacheXS({ namespace: 'remember' })
+		await cache.clear()
+		let calls = 0
+
+		const first = await cache.remember('foo', () => ++calls, 5)
+		const second = await cache.remember('foo', () => ++calls, 5)
+
+		expect(first).toBe(1)
+		expect(second).toBe(1)
+		expect(calls).toBe(1)
+		expect(await cache.ttl('foo')).toBeLessThanOrEqual(5)
+	})
+
+	it('Should run the factory only once for concurrent callers', async () => {
+		const cache = new CacheXS({ namespace: 'remember' })
+		await cache.clear()
+		let calls = 0
+
+		const factory = async () => {
+			calls++
+			await new Promise((resolve) => setTimeout(resolve, 100))
+			return { computed: true }
+		}
+
+		const values = await Promise.all(Array.from({ length: 10 }, () => cache.remember('stampede', factory, 5)))
+
+		expect(calls).toBe(1)
+		values.forEach((value) => expect(value).toStrictEqual({ computed: true }))
+	})
+
+	it('Should store the computed value forever with rememberForever', async () => {
+		const cache = new CacheXS({ namespace: 'remember' })
+		await cache.clear()
+
+		const value = await cache.rememberForever('forever', async () => 'bar')
+
+		expect(value).toBe('bar')
+		expect(await cache.ttl('forever')).toBe(-1)
+	})
+
+	it('Should throw when waiting for another process times out', async () => {
+		const cache = new CacheXS({ namespace: 'remember' })
+		await cache.clear()
+		await cache.redisClient.set(cache.concatenateKey('lock:remember:slow'), 'other-process', 'PX', 1000)
+
+		const promise = cache.remember('slow', () => 'bar', { waitTimeout: 100, onTimeout: 'throw' })
+
+		await expect(promise).rejects.toBeInstanceOf(LockTimeoutError)
+	})
+
+	it('Should compute the value locally when waiting for another process times out', async () => {
+		const cache = new CacheXS({ namespace: 'remember' })
+		await cache.clear()
+		await cache.redisClient.set(cache.concatenateKey('lock:remember:slow'), 'other-process', 'PX', 1000)
+
+		const value = await cache.remember('slow', () => 'bar', { waitTimeout: 100 })
+
+		expect(value).toBe('bar')
+		expect(await cache.exists('slow')).toBe(false)
+	})
+})
+
+describe('Locks', () => {
+	it('Should acquire a lock once and release it with its owner token', async () => {
+		const cache = new CacheXS({ namespace: 'locks' })
+
+		const lock = await cache.tryLock('foo', { ttl: 5000 })
+		expect(lock).not.toBeNull()
+		expect(lock?.key).toBe('locks:lock:foo')
+		expect(await cache.tryLock('foo')).toBeNull()
+
+		expect(await lock?.release()).toBe(true)
+		expect(lock?.signal.aborted).toBe(true)
+		expect(await cache.exists('lock:foo')).toBe(false)
+	})
+
+	it('Should not release a lock owned by someone else', async () => {
+		const cache = new CacheXS({ namespace: 'locks' })
+
+		const lock = await cache.lock('bar', { ttl: 100 })
+		await new Promise((resolve) => setTimeout(resolve, 150))
+		const otherLock = await cache.lock('bar', { ttl: 5000 })
+
+		expect(await lock.release()).toBe(false)
+		expect(await lock.extend()).toBe(false)
+		expect(await cache.exists('lock:bar')).toBe(true)
+		expect(await otherLock.release()).toBe(true)
+	})
+
+	it('Should retry until the lock is released or the timeout is reached', async () => {
+		const cache = new CacheXS({ namespace: 'locks' })
+
+		const lock = await cache.lock('baz', { ttl: 5000 })
+		setTimeout(() => lock.release(), 100)
+
+		const nextLock = await cache.lock('baz', { timeout: 1000 })
+		expect(nextLock.token).not.toBe(lock.token)
+
+		await expect(cache.lock('baz', { timeout: 100 })).rejects.toBeInstanceOf(LockTimeoutError)
+		await nextLock.release()
+	})
+
+	it('Should extend the lock while the withLock callback runs', async () => {
+		const cache = new CacheXS({ namespace: 'locks' })
+
+		const result = await cache.withLock(
+			'job',
+			async (lock) => {
+				await new Promise((resolve) => setTimeout(resolve, 300))
+				expect(lock.signal.aborted).toBe(false)
+				expect(await cache.exists('lock:job')).toBe(true)
+				return 'done'
+			},
+			{ ttl: 200 }
+		)
+
+		expect(result).toBe('done')
+		expect(await cache.exists('lock:job')).toBe(false)
+	})
+})
+
+describe('Stale While Revalidate', () => {
+	it('Should serve a value flagged as stale during its stale window', async () => {
+		const cache = new CacheXS({ namespace: 'swr' })
+		await cache.set('foo', 'bar', { expiresIn: 1, staleFor: 5 })
+
+		expect((await cache.getEntry('foo'))?.isStale).toBe(false)
+		await new Promise((resolve) => setTimeout(resolve, 1100))
+
+		const entry = await cache.getEntry<string>('foo')
+		expect(entry?.value).toBe('bar')
+		expect(entry?.isStale).toBe(true)
+		expect(await cache.get('foo')).toBe('bar')
+		expect(await cache.ttl('foo')).toBeGreaterThan(1)
+	})
+
+	it('Should return the stale value and refresh it in the background with remember', async () => {
+		const cache = new CacheXS({ namespace: 'swr' })
+		await cache.delete('refresh')
+		let calls = 0
+		const factory = async () => ++calls
+
+		expect(await cache.remember('refresh', factory, { expiresIn: 1, staleFor: 5 })).toBe(1)
+		await new Promise((resolve) => setTimeout(resolve, 1100))
+
+		const values = await Promise.all([
+			cache.remember('refresh', factory, { expiresIn: 1, staleFor: 5 }),
+			cache.remember('refresh', factory, { expiresIn: 1, staleFor: 5 }),
+		])
+		expect(values).toStrictEqual([1, 1])
+
+		await new Promise((resolve) => setTimeout(resolve, 100))
+		expect(calls).toBe(2)
+		expect(await cache.getEntry('refresh')).toMatchObject({ value: 2, isStale: false })
+	})
+
+	it('Should serve the value during its grace window when the factory throws', async () => {
+		const cache = new CacheXS({ namespace: 'swr' })
+		await cache.delete('grace')
+
+		await cache.remember('grace', () => 'bar', { expiresIn: 1, graceFor: 5 })
+		await new Promise((resolve) => setTimeout(resolve, 1100))
+
+		expect(await cache.get('grace')).toBeNull()
+
+		const failingFactory = () => {
+			throw new Error('Database is down')
+		}
+		expect(await cache.remember('grace', failingFactory, { expiresIn: 1, graceFor: 5 })).toBe('bar')
+
+		await cache.delete('grace')
+		await expect(cache.remember('grace', failingFactory, { expiresIn: 1, graceFor: 5 })).rejects.toThrow(
+			'Database is down'
+		)
+	})
+})
+
+describe('L1 Cache', () => {
+	it('Should evict the least recently used entries when a limit is exceeded', () => {
+		const lru = new LruCache<string>(2, 10)
+
+		lru.set('a', 'a', 1000, 4)
+		lru.set('b', 'b', 1000, 4)
+		lru.get('a')
+		lru.set('c', 'c', 1000, 4)
+		expect(lru.get('b')).toBeUndefined()
+		expect(lru.get('a')).toBe('a')
+
+		lru.set('d', 'd', 1000, 8)
+		expect(lru.size).toBe(1)
+		expect(lru.bytes).toBe(8)
+	})
+
+	it('Should serve repeated reads from memory and count hits per tier', async () => {
+		const cache = new CacheXS({ namespace: 'l1', l1: { maxEntries: 100 } })
+		await cache.set('foo', { bar: 'baz' })
+		await cache.redisClient.del('l1:foo')
+
+		expect(await cache.get('foo')).toStrictEqual({ bar: 'baz' })
+		expect(await cache.get('foo', { l1: false })).toBeNull()
+		expect(cache.tierStats).toStrictEqual({ l1: { hits: 1, misses: 0 }, l2: { hits: 0, misses: 1 } })
+	})
+
+	it('Should fill the memory tier from Redis with a time to live capped by Redis', async () => {
+		const cache = new CacheXS({ namespace: 'l1', l1: { ttl: 60 } })
+		const writer = new CacheXS({ namespace: 'l1' })
+		await writer.set('short', 'lived', 1)
+
+		expect(await cache.get('short')).toBe('lived')
+		expect(await cache.get('short')).toBe('lived')
+		expect(cache.tierStats.l1.hits).toBe(1)
+
+		await new Promise((resolve) => setTimeout(resolve, 1000))
+		expect(await cache.get('short')).toBeNull()
+	})
+
+	it('Should keep the memory tier consistent with deletes and clears', async () => {
+		const cache = new CacheXS({ namespace: 'l1', l1: {} })
+
+		await cache.set('foo', 'bar')
+		await cache.delete('foo')
+		expect(await cache.get('foo')).toBeNull()
+
+		await cache.set('user:1', 'John')
+		await cache.set('user:2', 'Jane')
+		await cache.deleteMany(['user:1'])
+		await cache.redisClient.del('l1:user:2')
+		await cache.deleteByPattern('user:*')
+		expect(await cache.get('user:1')).toBeNull()
+		expect(await cache.get('user:2')).toBeNull()
+
+		await cache.set('foo', 'bar', { l1: false })
+		await cache.clear()
+		expect(await cache.get('foo')).toBeNull()
+	})
+})
+
+describe('L1 Invalidation', () => {
+	const wait = (milliseconds: number) => new Promise((resolve) => setTimeout(resolve, milliseconds))
+
+	it('Should evict the memory copies of other instances on writes and deletes', async () => {
+		const reader = new CacheXS({ namespace: 'sync', l1: {}, invalidation: true })
+		const writer = new CacheXS({ namespace: 'sync', invalidation: true })
+		await wait(100)
+
+		await writer.set('foo', 'bar')
+		expect(await reader.get('foo')).toBe('bar')
+
+		await writer.set('foo', 'baz')
+		await wait(100)
+		expect(await reader.get('foo')).toBe('baz')
+
+		await writer.delete('foo')
+		await wait(100)
+		expect(await reader.get('foo')).toBeNull()
+
+		await reader.close()
+	})
+
+	it('Should evict the memory copies of other instances on pattern deletes and clears', async () => {
+		const reader = new CacheXS({ namespace: 'sync', l1: {}, invalidation: true })
+		const writer = new CacheXS({ namespace: 'sync', invalidation: true })
+		await wait(100)
+
+		await writer.set('user:1', 'John')
+		await writer.set('user:2', 'Jane')
+		expect(await reader.get('user:1')).toBe('John')
+		expect(await reader.get('user:2')).toBe('Jane')
+
+		await writer.deleteByPattern('user:1')
+		await wait(100)
+		expect(await reader.get('user:1')).toBeNull()
+
+		await writer.clear()
+		await wait(100)
+		expect(await reader.get('user:2')).toBeNull()
+
+		await reader.close()
+	})
+})
+
+describe('Tags', () => {
+	it('Should delete every value stored with an invalidated tag', async () => {
+		const cache = new CacheXS({ namespace: 'tags' })
+		await cache.clear()
+
+		await cache.set('user:1:profile', { name: 'John' }, { tags: ['user:1'] })
+		await cache.setForever('user:1:settings', { theme: 'dark' }, { tags: ['user:1', 'settings'] })
+		await cache.remember('user:1:feed', () => ['post'], { expiresIn: 60, tags: ['user:1'] })
+		await cache.set('user:2:profile', { name: 'Jane' }, { tags: ['user:2'] })
+
+		const deletedCount = await cache.invalidateTags(['user:1'])
+
+		expect(deletedCount).toBe(3)
+		expect(await cache.get('user:1:profile')).toBeNull()
+		expect(await cache.get('user:1:settings')).toBeNull()
+		expect(await cache.get('user:1:feed')).toBeNull()
+		expect(await cache.get('user:2:profile')).toStrictEqual({ name: 'Jane' })
+		expect(await cache.exists('tag:user:1')).toBe(false)
+	})
+
+	it('Should expire the tag index along with its keys', async () => {
+		const cache = new CacheXS({ namespace: 'tags' })
+		await cache.clear()
+
+		await cache.set('short', 'value', { expiresIn: 10, tags: ['expiring'] })
+		await cache.set('long', 'value', { expiresIn: 100, tags: ['expiring'] })
+		await cache.set('shorter', 'value', { expiresIn: 5, tags: ['expiring'] })
+		expect(await cache.ttl('tag:expiring')).toBe(100)
+
+		await cache.setForever('forever', 'value', { tags: ['expiring'] })
+		expect(await cache.ttl('tag:expiring')).toBe(-1)
+	})
+
+	it('Should evict invalidated tags from the memory tier', async () => {
+		const cache = new CacheXS({ namespace: 'tags', l1: {} })
+
+		await cache.set('foo', 'bar', { tags: ['foo'] })
+		expect(await cache.get('foo')).toBe('bar')
+
+		expect(await cache.invalidateTags(['foo'])).toBe(1)
+		expect(await cache.get('foo')).toBeNull()
+		expect(await cache.invalidateTags(['foo'])).toBe(0)
+	})
+})
+
+describe('Batch Operations', () => {
+	it('Should get multiple values in the order of their keys', async () => {
+		const cache = new CacheXS({ namespace: 'batch', batchSize: 2 })
+		await cache.clear()
+
+		await cache.set('a', 1)
+		await cache.set('b', { name: 'John' })
+		await cache.set('d', new Date(0))
+
+		expect(await cache.getMany(['a', 'b', 'c', 'd', 'a'])).toStrictEqual([
+			1,
+			{ name: 'John' },
+			null,
+			new Date(0),
+			1,
+		])
+		expect(await cache.getMany([])).toStrictEqual([])
+	})
+
+	it('Should set multiple values with shared and per-entry options', async () => {
+		const cache = new CacheXS({ namespace: 'batch', batchSize: 2 })
+		await cache.clear()
+
+		await cache.setMany({ foo: 'bar', baz: 42, qux: [1, 2] }, 60)
+		await cache.setMany([
+			{ key: 'tagged', value: 'value', options: { expiresIn: 120, tags: ['batch'] } },
+			{ key: 'shared', value: 'value' },
+		])
+
+		expect(await cache.getMany(['foo', 'baz', 'qux'])).toStrictEqual(['bar', 42, [1, 2]])
+		expect(await cache.ttl('foo')).toBe(60)
+		expect(await cache.ttl('tagged')).toBe(120)
+		expect(await cache.invalidateTags(['batch'])).toBe(1)
+		expect(await cache.get('shared')).toBe('value')
+	})
+
+	it('Should delete and clear keys in batches', async () => {
+		const cache = new CacheXS({ namespace: 'batch', batchSize: 3 })
+		await cache.clear()
+
+		const entries = Array.from({ length: 10 }, (_, index) => ({ key: `item:${index}`, value: index }))
+		await cache.setMany(entries)
+
+		await cache.deleteMany(['item:0', 'item:1', 'item:2', 'item:3'])
+		expect(Object.keys(await cache.getByPattern('item:*'))).toHaveLength(6)
+
+		await cache.clear()
+		expect(await cache.getByPattern('item:*')).toStrictEqual({})
+	})
+})
+
+describe('Transactions and Pipelines', () => {
+	it('Should run the commands of a transaction and return their results in order', async () => {
+		const cache = new CacheXS({ namespace: 'transaction' })
+		await cache.clear()
+		await cache.set('cart:1', ['item'])
+
+		const results = await cache
+			.transaction()
+			.set('order:1', { total: 10 }, 60)
+			.setForever('settings', new Map([['theme', 'dark']]))
+			.delete('cart:1')
+			.increment('orders:count')
+			.decrement('stock')
+			.expire('orders:count', 120)
+			.expireNow('missing')
+			.exec()
+
+		expect(results).toStrictEqual(['OK', 'OK', true, 1, -1, true, false])
+		expect(await cache.get('order:1')).toStrictEqual({ total: 10 })
+		expect(await cache.get('settings')).toStrictEqual(new Map([['theme', 'dark']]))
+		expect(await cache.get('cart:1')).toBeNull()
+		expect(await cache.ttl('orders:count')).toBe(120)
+	})
+
+	it('Should index the tags of a transaction atomically with its writes', async () => {
+		const cache = new CacheXS({ namespace: 'transaction:tags' })
+		await cache.clear()
+		await cache.set('text', 'not a number')
+
+		await expect(
+			cache
+				.transaction()
+				.set('post:1', 'first', { expiresIn: 60, tags: ['posts'] })
+				.setForever('post:2', 'second', { tags: ['posts', 'featured'] })
+				.increment('text')
+				.set('post:3', 'never written', { tags: ['posts'] })
+				.exec()
+		).rejects.toThrow()
+
+		expect(await cache.ttl('tag:posts')).toBe(-1)
+		expect(await cache.invalidateTags(['featured'])).toBe(1)
+		expect(await cache.invalidateTags(['posts'])).toBe(1)
+		expect(await cache.get('post:1')).toBeNull()
+		expect(await cache.get('post:3')).toBeNull()
+	})
+
+	it('Should send the commands of a pipeline', async () => {
+		const cache = new CacheXS({ namespace: 'pipeline', l1: {} })
+		await cache.clear()
+		await cache.set('draft', 'text')
+		expect(await cache.get('draft')).toBe('text')
+
+		const pipeline = cache
+			.pipeline()
+			.delete('draft')
+			.increment('views')
+			.set('post', 'content', { tags: ['posts'] })
+		expect(pipeline.length).toBe(3)
+		expect(await pipeline.exec()).toStrictEqual([true, 1, 'OK'])
+
+		expect(await cache.get('draft')).toBeNull()
+		expect(await cache.invalidateTags(['posts'])).toBe(1)
+		expect(await cache.pipeline().exec()).toStrictEqual([])
+	})
+})
+
+describe('Conditional Caching', () => {
+	it('Should only let one concurrent caller create a value', async () => {
+		const cache = new CacheXS({ namespace: 'conditional' })
+		await cache.clear()
+
+		const results = await Promise.all(
+			Array.from({ length: 10 }, (_, index) => cache.setIfNotExists('winner', index, 60))
+		)
+		const created = results.filter((result) => result.created)
+
+		expect(created).toHaveLength(1)
+		expect(results.every((result) => result.value === created[0].value)).toBe(true)
+		expect(await cache.get('winner')).toBe(created[0].value)
+	})
+
+	it('Should return stored falsy values instead of the fallback value', async () => {
+		const cache = new CacheXS({ namespace: 'conditional' })
+		await cache.clear()
+
+		await cache.set('zero', 0)
+		await cache.set('false', false)
+		await cache.setForever('empty', '')
+
+		expect(await cache.getOrSet('zero', 10)).toBe(0)
+		expect(await cache.getOrSet('false', true)).toBe(false)
+		expect(await cache.getOrSetForever('empty', 'fallback')).toBe('')
+		expect(await cache.getOrSet('missing', 'fallback', 60)).toBe('fallback')
+		expect(await cache.setIfNotExists('zero', 1)).toStrictEqual({ created: false, value: 0 })
+	})
+
+	it('Should store the fallback value of getOrSetForever without expiration', async () => {
+		const cache = new CacheXS({ namespace: 'conditional', serializer: new MsgPackSerializer() })
+		await cache.clear()
+
+		expect(await cache.getOrSetForever('settings', { theme: 'dark' })).toStrictEqual({ theme: 'dark' })
+		expect(await cache.getOrSetForever('settings', { theme: 'light' })).toStrictEqual({ theme: 'dark' })
+		expect(await cache.ttl('settings')).toBe(-1)
+	})
+
+	it('Should replace a value past its stale window', async () => {
+		const cache = new CacheXS({ namespace: 'conditional' })
+		await cache.clear()
+
+		await cache.set('report', 'old', { expiresIn: 1, graceFor: 60 })
+		await new Promise((resolve) => setTimeout(resolve, 1100))
+
+		expect(await cache.setIfNotExists('report', 'new', 60)).toStrictEqual({ created: true, value: 'new' })
+		expect(await cache.get('report')).toBe('new')
+	})
+})
+
+describe('Rate Limiting', () => {
+	const algorithms = ['fixed-window', 'sliding-window-log', 'sliding-window-counter', 'token-bucket'] as const
+
+	for (const algorithm of algorithms) {
+		it(`Should limit the hits of a key with the ${algorithm} algorithm`, async () => {
+			const cache = new CacheXS({ namespace: 'ratelimit' })
+			const limiter = cache.rateLimiter({ algorithm, limit: 3, window: 10 })
+			await limiter.reset('client')
+
+			const results = []
+			for (let i = 0; i < 4; i++) {
+				results.push(await limiter.consume('client'))
+			}
+
+			expect(results.map((result) => result.allowed)).toStrictEqual([true, true, true, false])
+			expect(results.map((result) => result.remaining)).toStrictEqual([2, 1, 0, 0])
+			expect(results[3].retryAfter).toBeGreaterThan(0)
+			// The sliding window counter may wait for the current window, then for it to drain as the previous one
+			expect(results[3].retryAfter).toBeLessThanOrEqual(algorithm === 'sliding-window-counter' ? 20000 : 10000)
+			expect(results[3].resetAt).toBeGreaterThan(Date.now())
+
+			const other = await limiter.consume('other-client')
+			expect(other.allowed).toBe(true)
+			await limiter.reset('other-client')
+		})
+	}
+
+	it('Should allow hits again after the window', async () => {
+		const cache = new CacheXS({ namespace: 'ratelimit' })
+		const limiter = cache.rateLimiter({ limit: 2, window: 1 })
+		await limiter.reset('client')
+
+		expect((await limiter.consume('client', 2)).allowed).toBe(true)
+		expect((await limiter.consume('client')).allowed).toBe(false)
+		await new Promise((resolve) => setTimeout(resolve, 1100))
+		expect((await limiter.consume('client')).allowed).toBe(true)
+		expect(await cache.ttl('ratelimit:fixed-window:client')).toBeGreaterThanOrEqual(0)
+	})
+
+	it('Should allow the hits again exactly after the sliding window counter retry delay', async () => {
+		let now = 100_000
+		const cache = new CacheXS({ driver: new MemoryDriver({ now: () => now }) })
+		const limiter = cache.rateLimiter({ algorithm: 'sliding-window-counter', limit: 10, window: 10 })
+
+		now += 2000
+		expect((await limiter.consume('client', 10)).allowed).toBe(true)
+
+		// The full current window, then the previous window draining, delay the next hits
+		for (const expected of [9000, 1000]) {
+			const denied = await limiter.consume('client')
+			expect(denied).toMatchObject({ allowed: false, retryAfter: expected })
+
+			now += denied.retryAfter - 1
+			expect((await limiter.consume('client')).allowed).toBe(false)
+			now += 1
+			expect((await limiter.consume('client')).allowed).toBe(true)
+		}
+	})
+
+	it('Should count the hits under the current generation of a versioned namespace', async () => {
+		const driver = new MemoryDriver()
+		const cache = new CacheXS({ driver, namespace: 'limits', versioning: { refreshInterval: 0 } })
+		const other = new CacheXS({ driver, namespace: 'limits', versioning: { refreshInterval: 0 } })
+		const limiter = cache.rateLimiter({ limit: 1, window: 60 })
+
+		expect((await limiter.consume('client')).allowed).toBe(true)
+		expect((await limiter.consume('client')).allowed).toBe(false)
+
+		await other.invalidateNamespace()
+
+		expect((await limiter.consume('client')).allowed).toBe(true)
+		expect(await driver.exists('limits:v1:ratelimit:fixed-window:client')).toBe(true)
+	})
+
+	it('Should map a result to the RateLimit headers', () => {
+		const limiter = new CacheXS().rateLimiter({ limit: 100, window: 60 })
+		const resetAt = Date.now() + 30000
+
+		expect(limiter.headers({ allowed: true, limit: 100, remaining: 99, resetAt, retryAfter: 0 })).toStrictEqual({
+			'RateLimit-Limit': '100',
+			'RateLimit-Remaining': '99',
+			'RateLimit-Reset': '30',
+			'RateLimit-Policy': '100;w=60',
+		})
+		expect(limiter.headers({ allowed: false, limit: 100, remaining: 0, resetAt, retryAfter: 1500 })).toMatchObject({
+			'RateLimit-Remaining': '0',
+			'Retry-After': '2',
+		})
+	})
+
+	it('Should reject invalid limits and costs', async () => {
+		const cache = new CacheXS()
+
+		expect(() => cache.rateLimiter({ limit: 0, window: 60 })).toThrow(CacheXSError)
+		expect(() => cache.rateLimiter({ limit: 10, window: 0 })).toThrow(CacheXSError)
+		await expect(cache.rateLimiter({ limit: 10, window: 60 }).consume('client', 11)).rejects.toThrow(CacheXSError)
+	})
+})
+
+describe('Logging', () => {
+	const createLogger = () => {
+		const records: { level: LogLevel; record: LogRecord; message: string }[] = []
+		const logger = {
+			debug: (record: LogRecord, message: string) => records.push({ level: 'debug', record, message }),
+			info: (record: LogRecord, message: string) => records.push({ level: 'info', record, message }),
+			warn: (record: LogRecord, message: string) => records.push({ level: 'warn', record, message }),
+			error: (record: LogRecord, message: string) => records.push({ level: 'error', record, message }),
+		}
+
+		return { logger, records }
+	}
+
+	it('Should pass structured records with redacted values to the logger', async () => {
+		const { logger, records } = createLogger()
+		const cache = new CacheXS({ namespace: 'logging', logger, logLevel: 'debug' })
+
+		await cache.set('token', 'secret', 60)
+		await cache.get('token')
+		await cache.get('missing')
+
+		expect(records.map(({ message }) => message)).toStrictEqual([
+			'CacheXS -> Set',
+			'CacheXS -> Get',
+			'CacheXS -> Get',
+		])
+		expect(records[0].record).toMatchObject({
+			operation: 'set',
+			namespace: 'logging',
+			key: 'logging:token',
+			ttl: 60,
+			value: '[Redacted]',
+		})
+		expect(records[0].record.duration).toBeGreaterThanOrEqual(0)
+		expect(records[1].record).toMatchObject({ operation: 'get', hit: true, value: '[Redacted]' })
+		expect(records[2].record).toMatchObject({ operation: 'get', hit: false })
+		expect(records[2].record.value).toBeUndefined()
+	})
+
+	it('Should filter the records by level', () => {
+		const { logger, records } = createLogger()
+		const cache = new CacheXS({ logger, logLevel: 'warn' })
+
+		cache.log('debug', 'Debug', { operation: 'debug' })
+		cache.log('info', 'Info', { operation: 'info' })
+		cache.log('warn', 'Warn', { operation: 'warn' })
+		cache.log('error', 'Error', { operation: 'error', error: new Error('failed') })
+
+		expect(records.map(({ level }) => level)).toStrictEqual(['warn', 'error'])
+	})
+
+	it('Should apply the redaction policy', () => {
+		const { logger, records } = createLogger()
+		const cache = new CacheXS({ logger, logLevel: 'debug', redact: false })
+		cache.log('debug', 'Set', { operation: 'set', value: 'visible' })
+
+		cache.configure({
+			logger,
+			logLevel: 'debug',
+			redact: (record) => ({ ...record, key: record.key?.replace(/:\d+$/, ':*'), value: undefined }),
+		})
+		cache.log('debug', 'Set', { operation: 'set', key: 'user:1', value: 'hidden' })
+
+		expect(records[0].record.value).toBe('visible')
+		expect(records[1].record).toStrictEqual({ operation: 'set', namespace: '', key: 'user:*', value: undefined })
+	})
+
+	it('Should only log with the console when debug is enabled', () => {
+		expect(new CacheXS().isDebugEnabled).toBe(false)
+		expect(new CacheXS({ enableDebug: true }).isDebugEnabled).toBe(true)
+	})
+})
+
+describe('Events', () => {
+	it('Should fire events with un-namespaced keys after the operations', async () => {
+		const cache = new CacheXS({ namespace: 'events' })
+		await cache.clear()
+		const events: [string, unknown][] = []
+
+		for (const event of ['hit', 'miss', 'set', 'delete', 'expire', 'clear'] as const) {
+			cache.on(event, (payload) => events.push([event, payload]))
+		}
+
+		await cache.set('foo', 'bar', 60)
+		await cache.get('foo')
+		await cache.get('missing')
+		await cache.increment('count')
+		await cache.expire('count', 30)
+		await cache.deleteMany(['foo', 'count'])
+		await cache.clear()
+
+		expect(events.map(([event]) => event)).toStrictEqual(['set', 'hit', 'miss', 'set', 'expire', 'delete', 'clear'])
+		expect(events[0][1]).toMatchObject({ operation: 'set', namespace: 'events', key: 'foo', value: 'bar', ttl: 60 })
+		expect(events[1][1]).toMatchObject({ operation: 'get', key: 'foo', value: 'bar', isStale: false })
+		expect(events[3][1]).toMatchObject({ operation: 'increment', key: 'count', value: 1, ttl: null })
+		expect(events[5][1]).toMatchObject({ operation: 'deleteMany', keys: ['foo', 'count'] })
+		expect((events[0][1] as { duration: number }).duration).toBeGreaterThanOrEqual(0)
+	})
+
+	it('Should let before hooks veto and transform writes', async () => {
+		const cache = new CacheXS({ namespace: 'events' })
+		await cache.clear()
+
+		const removeHook = cache.before('set', (write) => {
+			if (write.value === null) {
+				return false
+			}
+
+			write.value = { ...(write.value as object), password: undefined }
+		})
+		cache.before('delete', ({ key }) => !key.startsWith('protected:'))
+
+		expect(await cache.set('empty', null)).toBeNull()
+		await cache.set('user', { name: 'John', password: 'secret' })
+		await cache.setForever('protected:config', { theme: 'dark' })
+		await cache.deleteMany(['user', 'protected:config'])
+
+		expect(await cache.exists('empty')).toBe(false)
+		expect(await cache.get('user')).toBeNull()
+		expect(await cache.get('protected:config')).toStrictEqual({ theme: 'dark' })
+
+		removeHook()
+		await cache.set('user', { name: 'John', password: 'secret' })
+		expect(await cache.get('user')).toStrictEqual({ name: 'John', password: 'secret' })
+	})
+
+	it('Should remove listeners and call once listeners a single time', () => {
+		const emitter = new EventEmitter<{ tick: number }>()
+		const received: number[] = []
+
+		const off = emitter.on('tick', (value) => received.push(value))
+		emitter.once('tick', (value) => received.push(value * 10))
+
+		emitter.listeners('tick').forEach((listener) => listener(1))
+		off()
+		emitter.listeners('tick').forEach((listener) => listener(2))
+
+		expect(received).toStrictEqual([1, 10])
+		expect(emitter.hasListeners('tick')).toBe(false)
+	})
+})
+
+describe('Metrics', () => {
+	it('Should count the operations of each namespace', async () => {
+		const cache = new CacheXS({ namespace: 'metrics', metrics: true })
+		await cache.clear()
+
+		await cache.set('foo', 'bar')
+		await cache.get('foo')
+		await cache.get('foo')
+		await cache.get('missing')
+		await cache.deleteMany(['foo', 'missing'])
+
+		const { metrics } = cache.metrics()
+		expect(metrics).toMatchObject({ hits: 2, misses: 1, sets: 1, deletes: 2, errors: 0 })
+		expect(metrics.hitRatio).toBeCloseTo(2 / 3)
+		expect(metrics.operations.get.count).toBe(3)
+		expect(metrics.operations.set.count).toBe(1)
+		expect(new CacheXS().metrics()).toStrictEqual({})
+	})
+
+	it('Should count the failed operations as errors', async () => {
+		class BrokenDriver extends MemoryDriver {
+			protected call(): unknown {
+				throw new Error('ECONNREFUSED')
+			}
+		}
+
+		const cache = new CacheXS({ driver: new BrokenDriver(), namespace: 'metrics', metrics: true })
+
+		await expect(cache.get('foo')).rejects.toThrow('ECONNREFUSED')
+		await expect(cache.increment('count')).rejects.toThrow('ECONNREFUSED')
+		await expect(cache.remember('report', () => 'value', 60)).rejects.toThrow('ECONNREFUSED')
+
+		expect(cache.metrics().metrics.errors).toBe(3)
+		expect(renderPrometheus(cache.metrics())).toContain(
+			'# HELP cachexs_errors_total Number of failed operations.\n'
+		)
+	})
+
+	it('Should build cumulative latency histograms', () => {
+		const metrics = new Metrics([0.001, 0.01, 0.1])
+
+		metrics.observe('app', 'get', 0.5)
+		metrics.observe('app', 'get', 5)
+		metrics.observe('app', 'get', 50)
+		metrics.observe('app', 'get', 500)
+
+		expect(metrics.snapshot().app.operations.get).toStrictEqual({
+			count: 4,
+			sum: 0.5555,
+			buckets: [
+				{ le: 0.001, count: 1 },
+				{ le: 0.01, count: 2 },
+				{ le: 0.1, count: 3 },
+			],
+		})
+
+		metrics.reset()
+		expect(metrics.snapshot()).toStrictEqual({})
+	})
+
+	it('Should render the metrics in the Prometheus text format', () => {
+		const metrics = new Metrics([0.01])
+		metrics.observe('users', 'get', 2)
+
+		const text = renderPrometheus(metrics.snapshot(), { 'say "hi"': metrics.snapshot().users })
+
+		expect(text).toContain('# TYPE cachexs_hits_total counter\ncachexs_hits_total{namespace="users"} 0\n')
+		expect(text).toContain('cachexs_hits_total{namespace="say \\"hi\\""} 0')
+		expect(text).toContain('# TYPE cachexs_operation_duration_seconds histogram')
+		expect(text).toContain(
+			'cachexs_operation_duration_seconds_bucket{namespace="users",operation="get",le="0.01"} 1'
+		)
+		expect(text).toContain(
+			'cachexs_operation_duration_seconds_bucket{namespace="users",operation="get",le="+Inf"} 1'
+		)
+		expect(text).toContain('cachexs_operation_duration_seconds_sum{namespace="users",operation="get"} 0.002')
+		expect(text).toContain('cachexs_operation_duration_seconds_count{namespace="users",operation="get"} 1')
+		expect(text.endsWith('\n')).toBe(true)
+	})
+})
+
+describe('Scopes', () => {
+	it('Should nest the namespace of scoped caches and inherit the settings', () => {
+		const serializer = new JsonSerializer()
+		const cache = new CacheXS({ namespace: 'app', expiresIn: 60 })
+		const users = cache.scope('users', { serializer })
+		const admins = users.scope('admins', { expiresIn: 10 })
+
+		expect(users.concatenateKey('123')).toBe('app:users:123')
+		expect(admins.concatenateKey('1')).toBe('app:users:admins:1')
+		expect(new CacheXS().scope('users').namespace).toBe('users')
+		expect(users.redisClient).toBe(cache.redisClient)
+		expect(users.expiresIn).toBe(60)
+		expect(admins.expiresIn).toBe(10)
+		expect(admins.serializer).toBe(serializer)
+		expect(cache.namespace).toBe('app')
+		expect(() => cache.scope('')).toThrow(CacheXSError)
+	})
+
+	it('Should limit clear and scan to the subtree of the scope', async () => {
+		const cache = new CacheXS({ namespace: 'scoped' })
+		await cache.clear()
+		const users = cache.scope('users')
+		const posts = cache.scope('posts')
+
+		await users.set('1', 'John')
+		await users.set('2', 'Jane')
+		await posts.set('1', 'Hello')
+
+		expect(await cache.get('users:1')).toBe('John')
+		expect((await users.scan('*')).sort()).toStrictEqual(['1', '2'])
+
+		await users.clear()
+		expect(await users.get('1')).toBeNull()
+		expect(await posts.get('1')).toBe('Hello')
+	})
+
+	it('Should share the events and metrics of the parent', async () => {
+		const cache = new CacheXS({ namespace: 'scoped', metrics: true })
+		const users = cache.scope('users')
+		const namespaces: string[] = []
+		cache.on('set', ({ namespace }) => namespaces.push(namespace))
+
+		await users.set('1', 'John')
+		await users.get('1')
+
+		expect(namespaces).toStrictEqual(['scoped:users'])
+		expect(cache.metrics()['scoped:users']).toMatchObject({ hits: 1, sets: 1 })
+	})
+})
+
+describe('Namespace Versioning', () => {
+	it('Should embed the generation of the namespace in the keys', async () => {
+		const cache = new CacheXS({ namespace: 'catalog', versioning: true })
+
+		expect(cache.concatenateKey('product:1')).toBe('catalog:v0:product:1')
+		expect(cache.scope('books').concatenateKey('1')).toBe('catalog:books:v0:1')
+		expect(new CacheXS({ versioning: true }).concatenateKey('product:1')).toBe('v0:product:1')
+		await expect(new CacheXS().invalidateNamespace()).rejects.toThrow(CacheXSError)
+		await expect(new CacheXS().sweep()).rejects.toThrow(CacheXSError)
+	})
+
+	it('Should make the previous keys unreachable when the namespace is cleared', async () => {
+		const cache = new CacheXS({ namespace: 'versioned', versioning: true })
+		const other = new CacheXS({ namespace: 'versioned', versioning: { refreshInterval: 0 } })
+
+		await cache.set('product:1', 'Book')
+		expect(await other.get('product:1')).toBe('Book')
+
+		const generation = await cache.invalidateNamespace()
+		expect(await cache.get('product:1')).toBeNull()
+		expect(await other.get('product:1')).toBeNull()
+
+		await cache.set('product:1', 'Pen')
+		await cache.clear()
+		expect(await cache.invalidateNamespace()).toBe(generation + 2)
+		expect(await cache.keys('*')).toStrictEqual([])
+	})
+
+	it('Should sweep the keys of the previous generations', async () => {
+		const cache = new CacheXS({ namespace: 'swept', versioning: true })
+		await cache.invalidateNamespace()
+		await cache.sweep()
+
+		await cache.set('product:1', 'Book')
+		await cache.set('product:2', 'Pen')
+		await cache.invalidateNamespace()
+		await cache.set('product:3', 'Cup')
+
+		expect(await cache.sweep()).toBe(2)
+		expect(await cache.scan('*')).toStrictEqual(['product:3'])
+		expect(await cache.get('product:3')).toBe('Cup')
+	})
+})
+
+describe('Safe Clear', () => {
+	it('Should require a confirmation to clear the whole database', async () => {
+		await expect(new CacheXS().clear()).rejects.toThrow(CacheXSError)
+		await expect(new CacheXS({ namespace: '' }).clear({ dryRun: true })).rejects.toThrow(CacheXSError)
+	})
+
+	it('Should list the keys without deleting them on a dry run', async () => {
+		const cache = new CacheXS({ namespace: 'dryrun' })
+		await cache.clear()
+		await cache.setMany({ 'user:1': 'John', 'user:2': 'Jane' })
+
+		const { count, keys } = await cache.clear({ dryRun: true })
+
+		expect(count).toBe(2)
+		expect(keys?.sort()).toStrictEqual(['user:1', 'user:2'])
+		expect(await cache.get('user:1')).toBe('John')
+	})
+
+	it('Should delete the keys in batches and report the progress', async () => {
+		const cache = new CacheXS({ namespace: 'progress', batchSize: 2 })
+		await cache.clear()
+		await cache.setMany({ a: 1, b: 2, c: 3, d: 4, e: 5 })
+		await new CacheXS({ namespace: 'progressive' }).set('a', 1)
+
+		const progress: number[] = []
+		const { count, keys } = await cache.clear({ onProgress: ({ deleted }) => progress.push(deleted) })
+
+		expect(count).toBe(5)
+		expect(keys).toBeUndefined()
+		expect(progress.at(-1)).toBe(5)
+		expect(progress).toStrictEqual([...progress].sort((a, b) => a - b))
+		expect(await cache.keys('*')).toStrictEqual([])
+		expect(await new CacheXS({ namespace: 'progressive' }).get('a')).toBe(1)
+	})
+})
+
+describe('Schema Validation', () => {
+	type User = { id: number; name: string }
+
+	const isUser = (value: unknown): value is User =>
+		typeof value === 'object' && value !== null && 'id' in value && 'name' in value
+	const UserSchema: StandardSchema<User> = {
+		'~standard': {
+			version: 1,
+			vendor: 'test',
+			validate: (value) =>
+				isUser(value)
+					? { value: { id: Number(value.id), name: value.name.trim() } }
+					: { issues: [{ message: 'Expected a user', path: [] }] },
+		},
+	}
+
+	it('Should validate values with a Standard Schema or a type guard', async () => {
+		expect(await validate(UserSchema, { id: '1', name: ' John ' })).toStrictEqual({
+			valid: true,
+			value: { id: 1, name: 'John' },
+		})
+		expect(await validate(UserSchema, 'John')).toStrictEqual({
+			valid: false,
+			issues: [{ message: 'Expected a user', path: [] }],
+		})
+		expect(await validate(isUser, { id: 1, name: 'John' })).toMatchObject({ valid: true })
+		expect(await validate(isUser, null)).toMatchObject({ valid: false })
+	})
+
+	it('Should treat invalid values as misses and delete them', async () => {
+		const cache = new CacheXS({ namespace: 'validation' })
+		await cache.clear()
+		await cache.set('user:1', { id: 1, name: ' John ' })
+		await cache.set('user:2', 'Jane')
+
+		expect(await cache.get('user:1', { schema: UserSchema })).toStrictEqual({ id: 1, name: 'John' })
+		expect(await cache.getMany(['user:1', 'user:2'], { schema: isUser })).toStrictEqual([
+			{ id: 1, name: ' John ' },
+			null,
+		])
+		expect(await cache.exists('user:2')).toBe(false)
+	})
+
+	it('Should throw or return the raw value according to onInvalid', async () => {
+		const cache = new CacheXS({ namespace: 'validation', onInvalid: 'throw' })
+		await cache.clear()
+		await cache.set('user:1', 'John')
+
+		await expect(cache.get('user:1', { schema: isUser })).rejects.toBeInstanceOf(ValidationError)
+		expect(await cache.get('user:1', { schema: isUser, onInvalid: 'raw' })).toBe('John')
+		expect(await cache.getByPattern('user:*', true, { schema: isUser, onInvalid: 'raw' })).toStrictEqual({
+			'user:1': 'John',
+		})
+	})
+
+	it('Should replace invalid values with getOrSet and validate writes', async () => {
+		const cache = new CacheXS({ namespace: 'validation' })
+		await cache.clear()
+		await cache.set('user:1', 'John')
+
+		expect(await cache.getOrSet('user:1', { id: 1, name: 'John' }, { schema: isUser })).toStrictEqual({
+			id: 1,
+			name: 'John',
+		})
+		expect(await cache.get('user:1')).toStrictEqual({ id: 1, name: 'John' })
+		await expect(cache.set('user:2', 'Jane' as unknown as User, { schema: isUser })).rejects.toThrow(
+			ValidationError
+		)
+		expect(await cache.exists('user:2')).toBe(false)
+	})
+})
+
+describe('Cache Definitions', () => {
+	type Post = { id: number; title: string }
+
+	const isPost = (value: unknown): value is Post => typeof value === 'object' && value !== null && 'title' in value
+
+	it('Should build the keys from typed arguments', () => {
+		const cache = new CacheXS({ namespace: 'defined' })
+		const postCache = cache.define({ key: (authorId: number, id: number) => `post:${authorId}:${id}` })
+		const sessionCache = cache.define<string>({ key: (id) => `session:${id}` })
+
+		expect(postCache.key(1, 2)).toBe('post:1:2')
+		expect(sessionCache.key('abc')).toBe('session:abc')
+	})
+
+	it('Should apply the settings of the definition to every operation', async () => {
+		const cache = new CacheXS({ namespace: 'defined' })
+		await cache.clear()
+		const postCache = cache.define({
+			key: (id: number) => `post:${id}`,
+			ttl: 120,
+			tags: (id) => [`post:${id}`],
+			schema: isPost,
+		})
+
+		expect(await postCache.set(1, { id: 1, title: 'Hello' })).toBe('OK')
+		expect(await postCache.get(1)).toStrictEqual({ id: 1, title: 'Hello' })
+		expect(await postCache.ttl(1)).toBe(120)
+		expect(await postCache.exists(1)).toBe(true)
+		expect(await postCache.remember(2, () => ({ id: 2, title: 'World' }))).toStrictEqual({ id: 2, title: 'World' })
+		expect(await cache.get('post:2')).toStrictEqual({ id: 2, title: 'World' })
+
+		await cache.invalidateTags(['post:1'])
+		expect(await postCache.exists(1)).toBe(false)
+
+		await postCache.delete(2)
+		expect(await postCache.get(2)).toBeNull()
+	})
+
+	it('Should check the remembered values against the schema of the definition', async () => {
+		const cache = new CacheXS({ namespace: 'defined' })
+		await cache.clear()
+		const postCache = cache.define({ key: (id: number) => `post:${id}`, schema: isPost })
+		const strictCache = cache.define({ key: (id: number) => `post:${id}`, schema: isPost, onInvalid: 'throw' })
+
+		// A value written before the schema changed
+		await cache.set('post:1', { id: 1, body: 'outdated' })
+		await expect(strictCache.remember(1, () => ({ id: 1, title: 'Fresh' }))).rejects.toBeInstanceOf(ValidationError)
+		expect(await postCache.remember(1, () => ({ id: 1, title: 'Fresh' }))).toStrictEqual({ id: 1, title: 'Fresh' })
+		expect(await cache.get('post:1')).toStrictEqual({ id: 1, title: 'Fresh' })
+
+		const invalid = () => ({ id: 2, body: 'invalid' }) as unknown as Post
+		await expect(postCache.remember(2, invalid)).rejects.toBeInstanceOf(ValidationError)
+		expect(await cache.exists('post:2')).toBe(false)
+	})
+})
+
+describe('Memoization', () => {
+	it('Should cache the results and share the concurrent calls', async () => {
+		const cache = new CacheXS({ namespace: 'memoized' })
+		await cache.clear()
+		let calls = 0
+		const square = cache.wrap(
+			async (value: number) => {
+				calls++
+				await new Promise((resolve) => setTimeout(resolve, 50))
+				return value * value
+			},
+			{ key: (value) => `square:${value}`, ttl: 60 }
+		)
+
+		expect(await Promise.all([square(3), square(3), square(4)])).toStrictEqual([9, 9, 16])
+		expect(await square(3)).toBe(9)
+		expect(calls).toBe(2)
+		expect(await cache.get('square:3')).toBe(9)
+		expect(await cache.ttl('square:3')).toBe(60)
+	})
+
+	it('Should not cache the errors', async () => {
+		const cache = new CacheXS({ namespace: 'memoized' })
+		await cache.clear()
+		let calls = 0
+		const failing = cache.wrap(
+			async () => {
+				calls++
+				throw new Error('Unavailable')
+			},
+			{ key: () => 'failing' }
+		)
+
+		await expect(failing()).rejects.toThrow('Unavailable')
+		await expect(failing()).rejects.toThrow('Unavailable')
+		expect(calls).toBe(2)
+		expect(await cache.exists('failing')).toBe(false)
+	})
+
+	it('Should cache and evict the results of decorated methods', async () => {
+		const cache = new CacheXS({ namespace: 'decorated' })
+		await cache.clear()
+
+		class UserService {
+			public calls = 0
+
+			constructor(protected _prefix: string) {}
+
+			@Cached(cache, { key: (id: number) => `user:${id}`, tags: ['users'] })
+			async findUser(id: number): Promise<string> {
+				this.calls++
+				return `${this._prefix} ${id}`
+			}
+
+			@CacheEvict(cache, { key: (id: number) => `user:${id}` })
+			async renameUser(id: number): Promise<number> {
+				return id
+			}
+		}
+
+		const service = new UserService('User')
+
+		expect(await service.findUser(1)).toBe('User 1')
+		expect(await service.findUser(1)).toBe('User 1')
+		expect(service.calls).toBe(1)
+
+		expect(await service.renameUser(1)).toBe(1)
+		expect(await cache.exists('user:1')).toBe(false)
+		expect(await service.findUser(1)).toBe('User 1')
+		expect(service.calls).toBe(2)
+	})
+
+	it('Should only decorate methods', () => {
+		const cache = new CacheXS()
+
+		expect(() => Cached(cache, { key: () => 'key' })({}, 'property', {})).toThrow(CacheXSError)
+		expect(() => CacheEvict(cache, { key: () => 'key' })({}, 'property', {})).toThrow(CacheXSError)
+	})
+})
+
+describe('Encryption', () => {
+	const oldKey = Buffer.alloc(32, 1).toString('base64')
+	const newKey = new Uint8Array(32).fill(2)
+
+	it('Should encrypt and decrypt text and binary payloads', async () => {
+		const encryptor = new Encryptor({ keys: { old: oldKey }, currentKeyId: 'old' })
+		const encrypted = await encryptor.encrypt('{"token":"secret"}', 'app:session')
+
+		expect(encrypted.startsWith('cxe1:old:t:')).toBe(true)
+		expect(encrypted).not.toContain('secret')
+		expect(await encryptor.decrypt(encrypted, 'app:session')).toBe('{"token":"secret"}')
+		expect(await encryptor.decrypt(new TextEncoder().encode(encrypted), 'app:session')).toBe('{"token":"secret"}')
+
+		const bytes = new Uint8Array([1, 2, 3])
+		expect(await encryptor.decrypt(await encryptor.encrypt(bytes, 'app:bytes'), 'app:bytes')).toStrictEqual(bytes)
+	})
+
+	it('Should read the values encrypted with the retired keys', async () => {
+		const previous = new Encryptor({ keys: { old: oldKey }, currentKeyId: 'old' })
+		const rotated = new Encryptor({ keys: { old: oldKey, new: newKey }, currentKeyId: 'new' })
+		const encrypted = await previous.encrypt('value', 'key')
+
+		expect(await rotated.decrypt(encrypted, 'key')).toBe('value')
+		expect((await rotated.encrypt('value', 'key')).startsWith('cxe1:new:')).toBe(true)
+		await expect(
+			new Encryptor({ keys: { new: newKey }, currentKeyId: 'new' }).decrypt(encrypted, 'key')
+		).rejects.toBeInstanceOf(EncryptionError)
+	})
+
+	it('Should fail closed on tampered, moved or plaintext values', async () => {
+		const encryptor = new Encryptor({ keys: { old: oldKey }, currentKeyId: 'old' })
+		const encrypted = await encryptor.encrypt('value', 'key')
+		const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA')
+
+		await expect(encryptor.decrypt(tampered, 'key')).rejects.toBeInstanceOf(EncryptionError)
+		await expect(encryptor.decrypt(encrypted, 'other')).rejects.toBeInstanceOf(EncryptionError)
+		await expect(encryptor.decrypt('"value"', 'key')).rejects.toBeInstanceOf(EncryptionError)
+		expect(await encryptor.decrypt('42', 'counter')).toBe('42')
+		expect(
+			await new Encryptor({ keys: { old: oldKey }, currentKeyId: 'old', allowPlaintext: true }).decrypt(
+				'"value"',
+				'key'
+			)
+		).toBe('"value"')
+	})
+
+	it('Should reject invalid keys', () => {
+		expect(() => new Encryptor({ keys: { old: 'c2hvcnQ=' }, currentKeyId: 'old' })).toThrow(CacheXSError)
+		expect(() => new Encryptor({ keys: { 'a:b': oldKey }, currentKeyId: 'a:b' })).toThrow(CacheXSError)
+		expect(() => new Encryptor({ keys: { old: oldKey }, currentKeyId: 'new' })).toThrow(CacheXSError)
+	})
+
+	it('Should store the values encrypted in Redis', async () => {
+		const cache = new CacheXS({
+			namespace: 'encrypted',
+			encryption: { keys: { old: oldKey }, currentKeyId: 'old' },
+		})
+		await cache.clear()
+		await cache.set('session', { token: 'secret' })
+		await cache.setForever('bytes', new Uint8Array([1, 2, 3]))
+
+		expect((await cache.redisClient.get('encrypted:session'))?.startsWith('cxe1:old:')).toBe(true)
+		expect(await cache.get('session')).toStrictEqual({ token: 'secret' })
+		expect(await cache.get('bytes')).toStrictEqual(new Uint8Array([1, 2, 3]))
+		expect(await cache.getByPattern('session')).toStrictEqual({ session: { token: 'secret' } })
+
+		await cache.redisClient.set('encrypted:session', '{"token":"forged"}')
+		await expect(cache.get('session')).rejects.toBeInstanceOf(EncryptionError)
+	})
+})
+
+describe('Memory Driver', () => {
+	it('Should expire keys against the injected clock', async () => {
+		let now = 0
+		const driver = new MemoryDriver({ now: () => now })
+
+		await driver.set('a', '1', 'EX', '10')
+		await driver.set('b', '2', 'PX', '1500')
+		await driver.set('c', '3')
+
+		expect(await driver.ttl('a')).toBe(10)
+		expect(await driver.pttl('b')).toBe(1500)
+		expect(await driver.ttl('c')).toBe(-1)
+		expect(await driver.ttl('missing')).toBe(-2)
+
+		now = 1500
+		expect(await driver.get('b')).toBeNull()
+		expect(await driver.exists('a')).toBe(true)
+
+		now = 10000
+		expect(await driver.mget('a', 'b', 'c')).toStrictEqual([null, null, '3'])
+	})
+
+	it('Should count, set conditionally and match keys like Redis', async () => {
+		const driver = new MemoryDriver()
+
+		expect(await driver.incr('counter')).toBe(1)
+		expect(await driver.decr('counter')).toBe(0)
+		expect(await driver.set('counter', '5', 'NX')).toBeNull()
+		expect(await driver.set('fresh', '5', 'NX', 'GET')).toBeNull()
+		expect(await driver.set('fresh', '6', 'GET')).toBe('5')
+		await driver.set('text', 'value')
+		await expect(driver.incr('text')).rejects.toThrow('ERR value is not an integer')
+
+		await driver.send('SADD', ['users:set', 'a'])
+		await driver.set('users:1', 'a')
+		await driver.set('users:2', 'b')
+		expect((await driver.keys('users:?')).sort()).toStrictEqual(['users:1', 'users:2'])
+		await expect(driver.get('users:set')).rejects.toThrow('WRONGTYPE')
+
+		const scanned: string[] = []
+		let cursor = '0'
+		do {
+			const [next, keys] = await driver.scan(cursor, 'MATCH', 'users:*', 'COUNT', 1)
+			scanned.push(...keys)
+			cursor = next
+		} while (cursor !== '0')
+		expect(scanned.sort()).toStrictEqual(['users:1', 'users:2', 'users:set'])
+
+		const [next, visited] = await driver.scan('0', 'MATCH', 'users:*', 'COUNT', 5)
+		expect(visited).toStrictEqual(['users:set', 'users:1'])
+		await driver.send('UNLINK', visited)
+		expect(await driver.scan(next, 'MATCH', 'users:*', 'COUNT', 1)).toStrictEqual(['0', ['users:2']])
+	})
+
+	it('Should share the keyspace and the channels with its duplicates', async () => {
+		const driver = new MemoryDriver()
+		const duplicate = await driver.duplicate()
+		const messages: string[] = []
+
+		await duplicate.subscribe('channel', (message) => messages.push(message))
+		await driver.set('key', 'value')
+		expect(await driver.publish('channel', 'hello')).toBe(1)
+		await Promise.resolve()
+
+		expect(await duplicate.get('key')).toBe('value')
+		expect(messages).toStrictEqual(['hello'])
+
+		duplicate.close()
+		expect(await driver.publish('channel', 'hello')).toBe(0)
+	})
+
+	it('Should keep the binary payloads intact in the transactions', async () => {
+		const cache = new CacheXS({ driver: new MemoryDriver(), serializer: new MsgPackSerializer() })
+		const user = { id: 1, name: 'Ada', tags: ['admin'] }
+
+		expect(await cache.transaction().set('user', user).set('count', 42).exec()).toStrictEqual(['OK', 'OK'])
+		expect(await cache.get('user')).toStrictEqual(user)
+		expect(await cache.get('count')).toBe(42)
+	})
+
+	it('Should run the whole cache API without Redis', async () => {
+		let now = Date.now()
+		const driver = new MemoryDriver({ now: () => now })
+		const cache = new CacheXS({ driver, namespace: 'offline', invalidation: true })
+
+		await cache.set('user', { name: 'Ada' }, { expiresIn: 60, tags: ['users'] })
+		expect(await cache.get('user')).toStrictEqual({ name: 'Ada' })
+		expect(await cache.ttl('user')).toBe(60)
+		expect(await cache.increment('visits')).toBe(1)
+		expect(await cache.setIfNotExists('user', 'other')).toMatchObject({ created: false })
+		expect(await cache.remember('lazy', () => 'computed', 60)).toBe('computed')
+		expect((await cache.keys('*')).sort()).toStrictEqual(['lazy', 'tag:users', 'user', 'visits'])
+		expect(await cache.scan('us*')).toStrictEqual(['user'])
+		expect(await cache.transaction().set('a', 1).increment('visits').exec()).toStrictEqual(['OK', 2])
+
+		expect(await cache.invalidateTags(['users'])).toBe(1)
+		expect(await cache.get('user')).toBeNull()
+
+		expect(await cache.withLock('job', () => 'done')).toBe('done')
+		const limiter = cache.rateLimiter({ algorithm: 'sliding-window-log', limit: 2, window: 1 })
+		expect((await limiter.consume('ip')).allowed).toBe(true)
+		expect((await limiter.consume('ip')).allowed).toBe(true)
+		expect((await limiter.consume('ip')).allowed).toBe(false)
+
+		now += 61_000
+		expect(await cache.get('lazy')).toBeNull()
+		expect((await cache.clear()).count).toBe(2)
+		await cache.close()
+	})
+})
+
+describe('Testing Harness', () => {
+	it('Should expire the values when the fake clock advances', async () => {
+		const cache = new TestCache({ namespace: 'test', l1: { ttl: 30 } })
+
+		expect(await cache.incrementWithExpiry('temp', 1)).toBe(1)
+		await cache.set('user', { name: 'Ada' }, 60)
+		await cache.expectTtl('user', 60)
+		expect(await cache.expectCached('user')).toStrictEqual({ name: 'Ada' })
+
+		cache.advanceTime(1000)
+		expect(await cache.incrementWithExpiry('temp', 2)).toBe(1)
+		await cache.expectTtl('user', [58, 59])
+
+		cache.advanceTime(59_000)
+		expect(await cache.get('user')).toBeNull()
+		await cache.expectNotCached('user')
+		expect(() => cache.advanceTime(-1)).toThrow(CacheXSError)
+	})
+
+	it('Should serve stale values against the fake clock', async () => {
+		const cache = new TestCache({ startTime: 0 })
+		await cache.set('report', 'v1', { expiresIn: 10, staleFor: 20 })
+
+		cache.advanceTime(15_000)
+		expect(cache.time).toBe(15_000)
+		expect(await cache.getEntry('report')).toMatchObject({ value: 'v1', isStale: true })
+		await cache.expectTtl('report', 15)
+	})
+
+	it('Should time out the stampede wait against the fake clock', async () => {
+		const cache = new TestCache()
+		await cache.tryLock('remember:report', { ttl: 120_000 })
+
+		const pending = cache.remember('report', () => 'value', {
+			expiresIn: 60,
+			waitTimeout: 60_000,
+			pollInterval: 5,
+			onTimeout: 'throw',
+		})
+
+		// The waiter polls on the real timers, but gives up on the clock of the cache
+		await Bun.sleep(20)
+		cache.advanceTime(60_000)
+
+		await expect(pending).rejects.toBeInstanceOf(LockTimeoutError)
+	})
+
+	it('Should fail the assertions with a CacheAssertionError', async () => {
+		const cache = new TestCache()
+		await cache.setForever('forever', 1)
+
+		await expect(cache.expectCached('missing')).rejects.toBeInstanceOf(CacheAssertionError)
+		await expect(cache.expectNotCached('forever')).rejects.toBeInstanceOf(CacheAssertionError)
+		await expect(cache.expectTtl('forever', 60)).rejects.toThrow('never expires')
+		await expect(cache.expectTtl('missing', 60)).rejects.toThrow('missing')
+	})
+
+	it('Should record the reads, writes and deletions', async () => {
+		const cache = new TestCache({ namespace: 'recorded' })
+		const users = cache.scope('users')
+
+		await cache.get('missing')
+		await users.set('1', 'Ada')
+		await users.get('1')
+		await cache.deleteMany(['a', 'b'])
+		await cache.expectCached('users:1')
+
+		expect(cache.recorder.operations.map(({ type, key, hit }) => [type, key, hit])).toStrictEqual([
+			['get', 'missing', false],
+			['set', '1', undefined],
+			['get', '1', true],
+			['delete', 'a', undefined],
+			['delete', 'b', undefined],
+		])
+		expect(cache.recorder.calls('set', '1')).toMatchObject([
+			{ namespace: 'recorded:users', value: 'Ada', ttl: 300 },
+		])
+
+		cache.recorder.clear()
+		expect(cache.recorder.operations).toStrictEqual([])
+	})
+
+	it('Should record the reads and writes of remember and the conditional writes', async () => {
+		const cache = new TestCache()
+
+		await cache.remember('report', () => 'computed', 60)
+		await cache.remember('report', () => 'recomputed', 60)
+		await cache.getOrSet('settings', 'default', 60)
+		await cache.getOrSet('settings', 'other', 60)
+		await cache.setIfNotExists('winner', 1)
+		await cache.getOrSetForever('winner', 2)
+
+		expect(
+			cache.recorder.operations.map(({ type, operation, key, hit }) => [type, operation, key, hit])
+		).toStrictEqual([
+			['get', 'remember', 'report', false],
+			['set', 'set', 'report', undefined],
+			['get', 'remember', 'report', true],
+			['get', 'getOrSet', 'settings', false],
+			['set', 'getOrSet', 'settings', undefined],
+			['get', 'getOrSet', 'settings', true],
+			['get', 'setIfNotExists', 'winner', false],
+			['set', 'setIfNotExists', 'winner', undefined],
+			['get', 'getOrSetForever', 'winner', true],
+		])
+		expect(cache.recorder.calls('get', 'settings')[1]).toMatchObject({ value: 'default' })
+		expect(cache.recorder.calls('set', 'winner')).toMatchObject([{ value: 1, ttl: 300 }])
+	})
+
+	it('Should record any cache and keep the storage when reconfigured', async () => {
+		const cache = new TestCache()
+		const recorder = new OperationRecorder()
+		const stop = recorder.listen(cache)
+
+		await cache.set('kept', true)
+		cache.configure({ namespace: '' })
+		expect(await cache.get('kept')).toBe(true)
+
+		stop()
+		await cache.get('kept')
+		expect(recorder.calls('get')).toHaveLength(1)
+	})
+})
+
+describe('Resilience', () => {
+	class FlakyDriver extends MemoryDriver {
+		public down = false
+
+		protected call(command: string, ...args: (string | Uint8Array)[]): unknown {
+			if (this.down) {
+				throw new Error('ECONNREFUSED')
+			}
+
+			return super.call(command, ...args)
+		}
+	}
+
+	it('Should throw the storage failures without the resilience option', async () => {
+		const driver = new FlakyDriver()
+		const cache = new CacheXS({ driver })
+		driver.down = true
+
+		await expect(cache.get('key')).rejects.toThrow('ECONNREFUSED')
+		expect(cache.health).toStrictEqual({
+			state: 'closed',
+			degraded: false,
+			failures: 0,
+			openedAt: null,
+			retryAt: null,
+			lastError: null,
+		})
+	})
+
+	it('Should fire an error event for each failed operation before throwing', async () => {
+		const driver = new FlakyDriver()
+		const cache = new CacheXS({ driver })
+		const errors: [string, string | undefined][] = []
+		cache.on('error', ({ operation, key }) => errors.push([operation, key]))
+		driver.down = true
+
+		await expect(cache.get('key')).rejects.toThrow('ECONNREFUSED')
+		await expect(cache.set('key', 'value')).rejects.toThrow('ECONNREFUSED')
+		await expect(cache.delete('key')).rejects.toThrow('ECONNREFUSED')
+		await expect(cache.increment('count')).rejects.toThrow('ECONNREFUSED')
+		await expect(cache.remember('report', () => 'value', 60)).rejects.toThrow('ECONNREFUSED')
+
+		expect(errors).toStrictEqual([
+			['get', 'key'],
+			['set', 'key'],
+			['delete', 'key'],
+			['increment', 'count'],
+			['remember', 'report'],
+		])
+	})
+
+	it('Should return misses and skip writes while the storage is down', async () => {
+		const driver = new FlakyDriver()
+		const cache = new CacheXS({ driver, resilience: true })
+		const errors: string[] = []
+		cache.on('error', ({ operation }) => errors.push(operation))
+		await cache.set('kept', 'value')
+		driver.down = true
+
+		expect(await cache.get('kept')).toBeNull()
+		expect(await cache.set('key', 'value')).toBeNull()
+		expect(await cache.getMany(['a', 'b'])).toStrictEqual([null, null])
+		expect(await cache.getOrSet('key', 'fallback')).toBe('fallback')
+		expect(await cache.exists('kept')).toBe(false)
+		expect(await cache.keys('*')).toStrictEqual([])
+		expect(errors).toStrictEqual(['get', 'set', 'getMany', 'getOrSet', 'exists'])
+		expect(cache.health).toMatchObject({ state: 'open', degraded: true, failures: 5 })
+		expect((cache.health.lastError as Error).message).toBe('ECONNREFUSED')
+
+		await expect(cache.increment('counter')).rejects.toBeInstanceOf(CircuitOpenError)
+		await expect(cache.set('key', 'value', { schema: (value): value is number => false })).rejects.toBeInstanceOf(
+			ValidationError
+		)
+	})
+
+	it('Should compute the remembered values once while the storage is down', async () => {
+		const driver = new FlakyDriver()
+		const cache = new CacheXS({ driver, resilience: { failureThreshold: 100 } })
+		let calls = 0
+		driver.down = true
+
+		expect(await cache.remember('report', () => ++calls)).toBe(1)
+		expect(calls).toBe(1)
+
+		const factory = () => {
+			calls++
+			driver.down = true
+			return 'computed'
+		}
+		driver.down = false
+		expect(await cache.rememberForever('settings', factory)).toBe('computed')
+		expect(calls).toBe(2)
+		await expect(cache.remember('failing', () => Promise.reject(new Error('factory')))).rejects.toThrow('factory')
+	})
+
+	it('Should probe the storage after the cooldown and report the state changes', async () => {
+		let now = 0
+		const driver = new FlakyDriver({ now: () => now })
+		const changes: string[] = []
+		const callbacks: CircuitStateChange[] = []
+		const cache = new CacheXS({
+			driver,
+			now: () => now,
+			resilience: { failureThreshold: 2, cooldown: 1000, onStateChange: (change) => callbacks.push(change) },
+		})
+		cache.on('circuit', ({ previousState, state }) => changes.push(`${previousState}->${state}`))
+		driver.down = true
+
+		await cache.get('a')
+		expect(cache.health.state).toBe('closed')
+		await cache.get('a')
+		expect(cache.health).toMatchObject({ state: 'open', openedAt: 0, retryAt: 1000 })
+
+		now = 999
+		await cache.get('a')
+		expect(cache.health.failures).toBe(2)
+
+		now = 1000
+		await cache.get('a')
+		expect(cache.health).toMatchObject({ state: 'open', failures: 3, openedAt: 1000, retryAt: 2000 })
+
+		now = 2000
+		driver.down = false
+		await cache.set('a', 1)
+		expect(await cache.get('a')).toBe(1)
+		expect(cache.health).toMatchObject({ state: 'closed', degraded: false, failures: 0, openedAt: null })
+
+		expect(changes).toStrictEqual([
+			'closed->open',
+			'open->half-open',
+			'half-open->open',
+			'open->half-open',
+			'half-open->closed',
+		])
+		expect(callbacks[0]).toMatchObject({ state: 'open', previousState: 'closed', command: 'mget' })
+		expect((callbacks[0].error as Error).message).toBe('ECONNREFUSED')
+	})
+
+	it('Should send a single probe while the circuit is half-open', async () => {
+		let now = 0
+		const driver = new FlakyDriver({ now: () => now })
+		const cache = new CacheXS({ driver, now: () => now, resilience: { failureThreshold: 1, cooldown: 10 } })
+		driver.down = true
+		await cache.get('a')
+
+		now = 10
+		driver.down = false
+		await driver.set('a', '1')
+		const [probe, skipped] = await Promise.all([cache.get('a'), cache.get('a')])
+
+		expect(probe).toBe(1)
+		expect(skipped).toBeNull()
+		expect(cache.health.state).toBe('closed')
+	})
+})
+
+describe('Timeouts and Retries', () => {
+	class UnreliableDriver extends MemoryDriver {
+		public delay = 0
+		public failures = 0
+		public commands: string[] = []
+
+		public async mget(...keys: string[]): Promise<(string | null)[]> {
+			if (this.delay > 0) {
+				await Bun.sleep(this.delay)
+			}
+
+			return super.mget(...keys)
+		}
+
+		protected call(command: string, ...args: (string | Uint8Array)[]): unknown {
+			this.commands.push(command)
+
+			if (this.failures > 0) {
+				this.failures--
+				throw new Error('ECONNRESET')
+			}
+
+			return super.call(command, ...args)
+		}
+	}
+
+	it('Should reject the commands exceeding the timeout', async () => {
+		const driver = new UnreliableDriver()
+		const cache = new CacheXS({ driver, timeout: 20 })
+		await cache.set('key', 'value')
+		driver.delay = 100
+
+		const error = await cache.get('key').catch((error) => error)
+		expect(error).toBeInstanceOf(CommandTimeoutError)
+		expect(error.message).toBe('CacheXS -> The mget command timed out after 20ms')
+		expect(await cache.with({ timeout: 0 }).get('key')).toBe('value')
+	})
+
+	it('Should reject the operations once their signal aborts', async () => {
+		const driver = new UnreliableDriver()
+		const cache = new CacheXS({ driver })
+		await cache.set('key', 'value')
+		driver.delay = 100
+
+		const controller = new AbortController()
+		const pending = cache.with({ signal: controller.signal }).get('key')
+		controller.abort(new Error('Request closed'))
+
+		await expect(pending).rejects.toThrow('Request closed')
+		await expect(cache.with({ signal: controller.signal }).set('other', 'value')).rejects.toThrow('Request closed')
+		expect(await cache.get('key')).toBe('value')
+		expect(await cache.exists('other')).toBe(false)
+	})
+
+	it('Should apply the timeout, the signal and the retries of a single call', async () => {
+		const driver = new UnreliableDriver()
+		const cache = new CacheXS({ driver, retry: { retries: 1, minDelay: 1 } })
+		await cache.set('key', 'value', { expiresIn: 60 })
+		driver.delay = 100
+
+		await expect(cache.get('key', { timeout: 20 })).rejects.toThrow(CommandTimeoutError)
+		await expect(
+			cache.increment('count', { signal: AbortSignal.abort(new Error('Request closed')) })
+		).rejects.toThrow('Request closed')
+		expect(await cache.get('key')).toBe('value')
+		expect(await cache.exists('count')).toBe(false)
+
+		driver.failures = 1
+		await expect(cache.ttl('key', { retry: false })).rejects.toThrow('ECONNRESET')
+		driver.failures = 1
+		expect(await cache.ttl('key')).toBe(60)
+	})
+
+	it('Should share the generation of a versioned namespace with the children of with', async () => {
+		const cache = new CacheXS({
+			driver: new MemoryDriver(),
+			namespace: 'catalog',
+			versioning: { refreshInterval: 60000 },
+		})
+		await cache.set('product:1', 'Book')
+		await cache.with({ timeout: 100 }).clear()
+
+		expect(await cache.get('product:1')).toBeNull()
+
+		await cache.with({ timeout: 100 }).set('product:2', 'Pen')
+		await cache.invalidateNamespace({ timeout: 100 })
+
+		expect(await cache.with({ timeout: 100 }).get('product:2')).toBeNull()
+	})
+
+	it('Should retry the idempotent commands with an exponential backoff', async () => {
+		const driver = new UnreliableDriver()
+		const cache = new CacheXS({ driver, retry: { retries: 2, minDelay: 20, jitter: false } })
+		await cache.set('key', 'value')
+		driver.commands = []
+		driver.failures = 2
+
+		const startedAt = performance.now()
+		expect(await cache.get('key')).toBe('value')
+		expect(performance.now() - startedAt).toBeGreaterThanOrEqual(55)
+		expect(driver.commands).toStrictEqual(['MGET', 'MGET', 'MGET'])
+
+		driver.failures = 3
+		await expect(cache.exists('key')).rejects.toThrow('ECONNRESET')
+		expect(driver.commands.filter((command) => command === 'EXISTS')).toHaveLength(3)
+
+		driver.failures = 1
+		await expect(cache.with({ retry: false }).ttl('key')).rejects.toThrow('ECONNRESET')
+		expect(await cache.ttl('key')).toBe(300)
+	})
+
+	it('Should never retry the non-idempotent commands', async () => {
+		const driver = new UnreliableDriver()
+		const cache = new CacheXS({ driver, retry: { minDelay: 1 } })
+		driver.failures = 1
+
+		await expect(cache.increment('counter')).rejects.toThrow('ECONNRESET')
+		expect(driver.commands).toStrictEqual(['INCR'])
+		expect(await cache.increment('counter')).toBe(1)
+	})
+
+	it('Should keep the Redis connection behind redisClient and send the commands through the guarded driver', () => {
+		const redisClient = new RedisClient(redisUrl)
+		const cache = new CacheXS({ redisClient, timeout: 100, retry: true })
+
+		expect(cache.redisClient).toBe(redisClient)
+		expect(cache.with({ timeout: 50 }).redisClient).toBe(redisClient)
+		expect(typeof cache.redisClient.hset).toBe('function')
+		expect(cache.driver).not.toBe(redisClient)
+
+		const driver = new MemoryDriver()
+		expect(new CacheXS({ driver, timeout: 100 }).driver).not.toBe(driver)
+		expect(new CacheXS({ driver }).driver).toBe(driver)
+	})
+
+	it('Should count the timeouts as storage failures with the resilience option', async () => {
+		const driver = new UnreliableDriver()
+		const cache = new CacheXS({ driver, timeout: 20, resilience: { failureThreshold: 1 } })
+		await cache.set('key', 'value')
+		driver.delay = 100
+
+		expect(await cache.get('key')).toBeNull()
+		expect(cache.health.state).toBe('open')
+		expect(cache.health.lastError).toBeInstanceOf(CommandTimeoutError)
+	})
+})
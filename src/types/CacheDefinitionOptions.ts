@@ -0,0 +1,29 @@
+import { InvalidValueBehavior } from './ValidationOptions'
+import { Validator } from './Validator'
+
+export type CacheDefinitionOptions<T, Args extends unknown[]> = {
+	/**
+	 * Builds the key of an entry from its arguments, the namespace is added by the cache.
+	 */
+	key: (...args: Args) => string
+
+	/**
+	 * The expiration time in seconds of the entries, defaults to the instance `expiresIn`.
+	 */
+	ttl?: number
+
+	/**
+	 * The tags of the entries, or a function building them from the arguments.
+	 */
+	tags?: string[] | ((...args: Args) => string[])
+
+	/**
+	 * The schema or type guard checking the values read and written by `get`, `set` and `remember`.
+	 */
+	schema?: Validator<T>
+
+	/**
+	 * What happens when a read value does not match the schema, defaults to the instance `onInvalid`.
+	 */
+	onInvalid?: InvalidValueBehavior
+}
@@ -0,0 +1,26 @@
+export type CacheEntry<T> = {
+	/**
+	 * The cached value.
+	 */
+	value: T
+
+	/**
+	 * Indicates whether the value passed its expiration time and is served from its stale window.
+	 */
+	isStale: boolean
+
+	/**
+	 * The timestamp in milliseconds until which the value is fresh, or null if it was stored without stale or grace window.
+	 */
+	freshUntil: number | null
+
+	/**
+	 * The timestamp in milliseconds until which the value can be served as stale.
+	 */
+	staleUntil: number | null
+
+	/**
+	 * The timestamp in milliseconds until which the value can be served when recomputing it fails.
+	 */
+	graceUntil: number | null
+}
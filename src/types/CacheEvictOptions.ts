@@ -0,0 +1,11 @@
+export type CacheEvictOptions<Args extends unknown[]> = {
+	/**
+	 * Builds the keys to delete from the arguments of the call, the namespace is added by the cache.
+	 */
+	key?: (...args: Args) => string | string[]
+
+	/**
+	 * The tags to invalidate, or a function building them from the arguments of the call.
+	 */
+	tags?: string[] | ((...args: Args) => string[])
+}
@@ -0,0 +1,33 @@
+import { CircuitState } from './ResilienceOptions'
+
+export type CacheHealth = {
+	/**
+	 * The state of the circuit breaker, always `closed` without the `resilience` option.
+	 */
+	state: CircuitState
+
+	/**
+	 * Indicates whether the cache is skipping the storage, that is whether the circuit is not closed.
+	 */
+	degraded: boolean
+
+	/**
+	 * The number of consecutive storage failures.
+	 */
+	failures: number
+
+	/**
+	 * The timestamp in milliseconds at which the circuit last opened, null when it is closed.
+	 */
+	openedAt: number | null
+
+	/**
+	 * The timestamp in milliseconds from which a probe can be sent to the storage, null when the circuit is closed.
+	 */
+	retryAt: number | null
+
+	/**
+	 * The last storage failure, null after a successful command.
+	 */
+	lastError: unknown
+}
@@ -1,10 +1,38 @@
 import { RedisClient, RedisOptions } from 'bun'
 
+import { EncryptionOptions } from './EncryptionOptions'
+import { InvalidationOptions } from './InvalidationOptions'
+import { L1Options } from './L1Options'
+import { Logger, LogLevel, LogRecord } from './Logger'
+import { MetricsOptions } from './MetricsOptions'
+import { ResilienceOptions } from './ResilienceOptions'
+import { RetryOptions } from './RetryOptions'
+import { Serializer } from './Serializer'
+import { StorageDriver } from './StorageDriver'
+import { InvalidValueBehavior } from './ValidationOptions'
+import { VersioningOptions } from './VersioningOptions'
+
 export type CacheXSConfig = {
+	driver?: StorageDriver
 	redisClient?: RedisClient
 	redisUrl?: string
 	redisOptions?: RedisOptions
 	namespace?: string
 	expiresIn?: number
 	enableDebug?: boolean
+	serializer?: Serializer
+	l1?: L1Options
+	invalidation?: boolean | InvalidationOptions
+	batchSize?: number
+	logger?: Logger
+	logLevel?: LogLevel
+	redact?: boolean | ((record: LogRecord) => LogRecord)
+	metrics?: boolean | MetricsOptions
+	versioning?: boolean | VersioningOptions
+	onInvalid?: InvalidValueBehavior
+	encryption?: EncryptionOptions
+	now?: () => number
+	resilience?: boolean | ResilienceOptions
+	timeout?: number
+	retry?: boolean | RetryOptions
 }
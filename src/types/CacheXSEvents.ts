@@ -0,0 +1,76 @@
+import { CircuitState } from './ResilienceOptions'
+
+type CacheEvent = {
+	/**
+	 * The method that fired the event, such as `get`, `setMany` or `increment`.
+	 */
+	operation: string
+
+	/**
+	 * The namespace of the instance.
+	 */
+	namespace: string
+}
+
+type CompletedCacheEvent = CacheEvent & {
+	/**
+	 * How long the operation took in milliseconds.
+	 */
+	duration: number
+}
+
+/**
+ * The events fired by `CacheXS` after an operation, listened to with `cache.on`.
+ * The keys are not prefixed with the namespace.
+ */
+export type CacheXSEvents = {
+	/**
+	 * A read found a fresh or stale value.
+	 */
+	hit: CompletedCacheEvent & { key: string; value: unknown; isStale: boolean }
+
+	/**
+	 * A read found no servable value.
+	 */
+	miss: CompletedCacheEvent & { key: string }
+
+	/**
+	 * A value was written, the `ttl` in seconds is null when the value is stored forever or its expiration is unchanged.
+	 */
+	set: CompletedCacheEvent & { key: string; value: unknown; ttl: number | null }
+
+	/**
+	 * Keys were deleted.
+	 */
+	delete: CompletedCacheEvent & { keys: string[] }
+
+	/**
+	 * The expiration of a key was changed, the `ttl` is in seconds.
+	 */
+	expire: CompletedCacheEvent & { key: string; ttl: number }
+
+	/**
+	 * The namespace was cleared.
+	 */
+	clear: CompletedCacheEvent
+
+	/**
+	 * The circuit breaker of the `resilience` option changed state, the `operation` is the storage command that caused it.
+	 */
+	circuit: CacheEvent & { state: CircuitState; previousState: CircuitState; error?: unknown }
+
+	/**
+	 * An operation failed, fired once before its error is thrown or absorbed by the `resilience` option,
+	 * or a background operation failed, such as the refresh of a stale value or the delivery of an invalidation.
+	 */
+	error: CacheEvent & { key?: string; error: unknown }
+}
+
+/**
+ * The events fired by `CacheXS` before a write, listened to with `cache.before`.
+ * A hook vetoes the write by returning false, and the `value` of a `set` can be replaced.
+ */
+export type CacheXSBeforeEvents = {
+	set: CacheEvent & { key: string; value: unknown; ttl: number | null }
+	delete: CacheEvent & { key: string }
+}
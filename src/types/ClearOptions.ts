@@ -0,0 +1,28 @@
+export type ClearProgress = {
+	/**
+	 * The number of keys matched by `SCAN` so far.
+	 */
+	scanned: number
+
+	/**
+	 * The number of keys deleted so far, always 0 for a dry run.
+	 */
+	deleted: number
+}
+
+export type ClearOptions = {
+	/**
+	 * Confirms that every key of the database is deleted when the namespace is empty (default: false).
+	 */
+	all?: boolean
+
+	/**
+	 * Only lists the keys that would be deleted, without deleting them (default: false).
+	 */
+	dryRun?: boolean
+
+	/**
+	 * Called after each batch of keys with the progress of the clear.
+	 */
+	onProgress?: (progress: ClearProgress) => void
+}
@@ -0,0 +1,11 @@
+export type ClearResult = {
+	/**
+	 * The number of deleted keys, or of the keys that would be deleted for a dry run.
+	 */
+	count: number
+
+	/**
+	 * The keys that would be deleted, without the namespace, only listed for a dry run.
+	 */
+	keys?: string[]
+}
@@ -0,0 +1,18 @@
+export type EncryptionOptions = {
+	/**
+	 * The AES-256 keys by ID, 32 bytes each, as raw bytes or base64 strings.
+	 * Keep the retired keys to read the values they encrypted until those expire.
+	 */
+	keys: Record<string, string | Uint8Array>
+
+	/**
+	 * The ID of the key encrypting the new values.
+	 */
+	currentKeyId: string
+
+	/**
+	 * Whether the values stored before the encryption was enabled are read as is, instead of failing (default: false).
+	 * The integers written by `increment` and `decrement` are always read as is, Redis cannot encrypt them.
+	 */
+	allowPlaintext?: boolean
+}
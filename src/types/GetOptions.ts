@@ -0,0 +1,6 @@
+export type GetOptions = {
+	/**
+	 * Whether the in-memory L1 tier is read and filled (default: true).
+	 */
+	l1?: boolean
+}
@@ -0,0 +1,13 @@
+import { StorageDriver } from './StorageDriver'
+
+export type InvalidationOptions = {
+	/**
+	 * The pub/sub channel the invalidation messages are published on (default: `cachexs:invalidation:<namespace>`).
+	 */
+	channel?: string
+
+	/**
+	 * The dedicated connection used to subscribe to the channel, defaults to a duplicate of the storage driver.
+	 */
+	subscriberClient?: StorageDriver
+}
@@ -0,0 +1,7 @@
+/**
+ * Describes the L1 entries to evict, shared with the other instances over Redis pub/sub.
+ */
+export type L1Invalidation =
+	| { type: 'keys'; keys: string[] }
+	| { type: 'pattern'; pattern: string }
+	| { type: 'flush'; namespace: string }
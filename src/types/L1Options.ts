@@ -0,0 +1,16 @@
+export type L1Options = {
+	/**
+	 * The maximum number of entries kept in memory (default: 1000).
+	 */
+	maxEntries?: number
+
+	/**
+	 * The maximum size in bytes of the serialized entries kept in memory (default: no limit).
+	 */
+	maxBytes?: number
+
+	/**
+	 * The time to live in seconds of the in-memory entries, capped by their Redis expiration (default: 60).
+	 */
+	ttl?: number
+}
@@ -0,0 +1,26 @@
+export type LockOptions = {
+	/**
+	 * How long in milliseconds the lock is held before it expires on its own (default: 10000).
+	 */
+	ttl?: number
+
+	/**
+	 * How long in milliseconds `lock` and `withLock` keep retrying before giving up (default: 10000).
+	 */
+	timeout?: number
+
+	/**
+	 * The initial delay in milliseconds between two attempts, doubled after every attempt (default: 50).
+	 */
+	retryDelay?: number
+
+	/**
+	 * The maximum delay in milliseconds between two attempts (default: 1000).
+	 */
+	maxRetryDelay?: number
+
+	/**
+	 * Whether `withLock` keeps extending the lock while the callback runs (default: true).
+	 */
+	autoExtend?: boolean
+}
@@ -0,0 +1,71 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * A structured log record describing a cache operation.
+ */
+export type LogRecord = {
+	/**
+	 * The name of the operation, such as `get`, `set` or `remember`.
+	 */
+	operation: string
+
+	/**
+	 * The namespace of the instance.
+	 */
+	namespace: string
+
+	/**
+	 * The key of the operation, already prefixed with the namespace.
+	 */
+	key?: string
+
+	/**
+	 * The keys of a batched operation, already prefixed with the namespace.
+	 */
+	keys?: string[]
+
+	/**
+	 * The glob pattern of a pattern-based operation.
+	 */
+	pattern?: string
+
+	/**
+	 * The tags of a tag-based operation.
+	 */
+	tags?: string[]
+
+	/**
+	 * The time to live in seconds.
+	 */
+	ttl?: number
+
+	/**
+	 * How long the operation took in milliseconds.
+	 */
+	duration?: number
+
+	/**
+	 * Whether a read found a value.
+	 */
+	hit?: boolean
+
+	/**
+	 * The number of values found, written or deleted by a batched operation.
+	 */
+	count?: number
+
+	/**
+	 * The value read or written, replaced by `[Redacted]` unless redaction is disabled.
+	 */
+	value?: unknown
+
+	/**
+	 * The error of a failed operation.
+	 */
+	error?: unknown
+}
+
+/**
+ * A logger receiving structured records, compatible with pino and with the console.
+ */
+export type Logger = Record<LogLevel, (record: LogRecord, message: string) => void>
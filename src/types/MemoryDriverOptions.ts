@@ -0,0 +1,6 @@
+export type MemoryDriverOptions = {
+	/**
+	 * The clock returning the current time in milliseconds, used for the expirations and the rate limiters (default: `Date.now`).
+	 */
+	now?: () => number
+}
@@ -0,0 +1,7 @@
+export type MetricsOptions = {
+	/**
+	 * The upper bounds in seconds of the latency histogram buckets
+	 * (default: [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1]).
+	 */
+	buckets?: number[]
+}
@@ -0,0 +1,39 @@
+export type OperationMetrics = {
+	/**
+	 * The number of completed operations.
+	 */
+	count: number
+
+	/**
+	 * The total duration of the operations in seconds.
+	 */
+	sum: number
+
+	/**
+	 * The cumulative number of operations completed within each upper bound in seconds.
+	 */
+	buckets: { le: number; count: number }[]
+}
+
+export type NamespaceMetrics = {
+	hits: number
+	misses: number
+	sets: number
+	deletes: number
+	errors: number
+
+	/**
+	 * The share of the reads that found a value, 0 before the first read.
+	 */
+	hitRatio: number
+
+	/**
+	 * The latency histograms, by operation name.
+	 */
+	operations: Record<string, OperationMetrics>
+}
+
+/**
+ * The metrics of each namespace, by namespace.
+ */
+export type MetricsSnapshot = Record<string, NamespaceMetrics>
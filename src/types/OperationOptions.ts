@@ -0,0 +1,19 @@
+import { RetryOptions } from './RetryOptions'
+
+export type OperationOptions = {
+	/**
+	 * The time in milliseconds each storage command may take before it fails with a `CommandTimeoutError`,
+	 * 0 to wait indefinitely (default: the `timeout` of the instance).
+	 */
+	timeout?: number
+
+	/**
+	 * Aborts the operations, rejecting them with the reason of the signal.
+	 */
+	signal?: AbortSignal
+
+	/**
+	 * The retry policy of the idempotent commands, false to disable it (default: the `retry` of the instance).
+	 */
+	retry?: boolean | RetryOptions
+}
@@ -0,0 +1,13 @@
+import { SetOptions } from './SetOptions'
+
+/**
+ * A command queued on a pipeline or a transaction, executed by `CacheXS` with the namespace and the serializer applied.
+ */
+export type PipelineOperation =
+	| { type: 'set'; key: string; value: unknown; options?: number | SetOptions }
+	| { type: 'setForever'; key: string; value: unknown; options: Pick<SetOptions, 'l1' | 'tags'> }
+	| { type: 'delete'; key: string }
+	| { type: 'increment'; key: string }
+	| { type: 'decrement'; key: string }
+	| { type: 'expire'; key: string; expiresIn: number }
+	| { type: 'expireNow'; key: string }
@@ -0,0 +1,26 @@
+export type RateLimitResult = {
+	/**
+	 * Whether the hit is allowed.
+	 */
+	allowed: boolean
+
+	/**
+	 * The maximum number of hits per window.
+	 */
+	limit: number
+
+	/**
+	 * The number of hits still allowed in the current window.
+	 */
+	remaining: number
+
+	/**
+	 * The timestamp in milliseconds at which the limit is fully reset.
+	 */
+	resetAt: number
+
+	/**
+	 * How long in milliseconds to wait before the hit would be allowed, 0 if it is allowed.
+	 */
+	retryAfter: number
+}
@@ -0,0 +1,21 @@
+export type RateLimiterOptions = {
+	/**
+	 * The algorithm counting the hits (default: 'fixed-window').
+	 *
+	 * - `fixed-window` counts the hits of a window started by the first hit.
+	 * - `sliding-window-log` logs every hit, exact but storing one entry per hit.
+	 * - `sliding-window-counter` approximates the sliding window from the counts of the current and the previous windows.
+	 * - `token-bucket` takes one token per hit from a bucket of `limit` tokens, refilled over the window.
+	 */
+	algorithm?: 'fixed-window' | 'sliding-window-log' | 'sliding-window-counter' | 'token-bucket'
+
+	/**
+	 * The maximum number of hits per window, or the capacity of the bucket.
+	 */
+	limit: number
+
+	/**
+	 * The window length in seconds, or the time to refill an empty bucket.
+	 */
+	window: number
+}
@@ -0,0 +1,41 @@
+/**
+ * A read, write or deletion captured by an `OperationRecorder`.
+ * The keys are not prefixed with the namespace.
+ */
+export type RecordedOperation = {
+	/**
+	 * The kind of access, reads include the hits and the misses of `get`, `getMany`, `remember` and the other readers.
+	 * A conditional write such as `getOrSet` or `setIfNotExists` records a hit, or a miss followed by a set.
+	 */
+	type: 'get' | 'set' | 'delete'
+
+	/**
+	 * The method that made the access, such as `get`, `setMany` or `deleteByPattern`.
+	 */
+	operation: string
+
+	/**
+	 * The namespace of the instance.
+	 */
+	namespace: string
+
+	/**
+	 * The accessed key.
+	 */
+	key: string
+
+	/**
+	 * Indicates whether a read found a servable value, undefined for writes and deletions.
+	 */
+	hit?: boolean
+
+	/**
+	 * The value read or written, undefined for misses and deletions.
+	 */
+	value?: unknown
+
+	/**
+	 * The time to live in seconds of a write, null when the value is stored forever.
+	 */
+	ttl?: number | null
+}
@@ -0,0 +1,24 @@
+import { SetOptions } from './SetOptions'
+
+export type RememberOptions = SetOptions & {
+	/**
+	 * How long in milliseconds the recompute lock is held before it expires on its own (default: 10000).
+	 */
+	lockTimeout?: number
+
+	/**
+	 * How long in milliseconds to wait for another process to compute the value (default: 5000).
+	 */
+	waitTimeout?: number
+
+	/**
+	 * How often in milliseconds to check for the value while waiting (default: 50).
+	 */
+	pollInterval?: number
+
+	/**
+	 * What to do when the value is still missing after `waitTimeout`:
+	 * `compute` runs the factory locally without caching its result, `throw` throws a `LockTimeoutError` (default: `compute`).
+	 */
+	onTimeout?: 'compute' | 'throw'
+}
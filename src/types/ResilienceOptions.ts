@@ -0,0 +1,44 @@
+/**
+ * The state of the circuit breaker: `closed` sends every command, `open` skips the storage until the cooldown elapsed,
+ * and `half-open` sends a single probe whose result closes or opens the circuit again.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export type CircuitStateChange = {
+	/**
+	 * The new state of the circuit.
+	 */
+	state: CircuitState
+
+	/**
+	 * The state the circuit left.
+	 */
+	previousState: CircuitState
+
+	/**
+	 * The storage command that caused the change, such as `get`, `set` or `send`.
+	 */
+	command: string
+
+	/**
+	 * The failure that opened the circuit, undefined when it closed or a probe started.
+	 */
+	error?: unknown
+}
+
+export type ResilienceOptions = {
+	/**
+	 * The number of consecutive storage failures that opens the circuit (default: 5).
+	 */
+	failureThreshold?: number
+
+	/**
+	 * How long in milliseconds the circuit stays open before a probe is sent to the storage (default: 30000).
+	 */
+	cooldown?: number
+
+	/**
+	 * Called whenever the circuit changes state, in addition to the `circuit` event.
+	 */
+	onStateChange?: (change: CircuitStateChange) => void
+}
@@ -0,0 +1,21 @@
+export type RetryOptions = {
+	/**
+	 * The number of retries after the first attempt of an idempotent command (default: 3).
+	 */
+	retries?: number
+
+	/**
+	 * The delay in milliseconds before the first retry, doubled on each retry (default: 50).
+	 */
+	minDelay?: number
+
+	/**
+	 * The maximum delay in milliseconds between two attempts (default: 1000).
+	 */
+	maxDelay?: number
+
+	/**
+	 * Whether each delay is drawn at random up to its exponential value, so the clients do not retry in lockstep (default: true).
+	 */
+	jitter?: boolean
+}
@@ -0,0 +1,6 @@
+import { CacheXSConfig } from './CacheXSConfig'
+
+/**
+ * The settings a scoped child cache can override, every other setting and resource is shared with its parent.
+ */
+export type ScopeOptions = Pick<CacheXSConfig, 'expiresIn' | 'serializer' | 'logger' | 'logLevel' | 'redact'>
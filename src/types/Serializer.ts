@@ -0,0 +1,21 @@
+/**
+ * The raw payload produced by a serializer and stored in Redis.
+ */
+export type SerializedValue = string | Uint8Array
+
+export type Serializer = {
+	/**
+	 * Indicates whether the payloads are binary and must be read back from Redis as raw bytes.
+	 */
+	readonly binary?: boolean
+
+	/**
+	 * Converts a value into a payload that can be stored in Redis.
+	 */
+	serialize(value: unknown): SerializedValue
+
+	/**
+	 * Converts a payload read from Redis back into its original value.
+	 */
+	deserialize<T = unknown>(payload: SerializedValue): T
+}
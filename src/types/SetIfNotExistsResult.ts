@@ -0,0 +1,11 @@
+export type SetIfNotExistsResult<T> = {
+	/**
+	 * Whether the value was stored, false if the key already held a value.
+	 */
+	created: boolean
+
+	/**
+	 * The stored value, or the value the key already held.
+	 */
+	value: T
+}
@@ -0,0 +1,18 @@
+import { SetOptions } from './SetOptions'
+
+export type SetManyEntry<T> = {
+	/**
+	 * The key under which to store the value.
+	 */
+	key: string
+
+	/**
+	 * The value to be stored.
+	 */
+	value: T
+
+	/**
+	 * The expiration time in seconds, or the set options, overriding the ones shared by the batch.
+	 */
+	options?: number | SetOptions
+}
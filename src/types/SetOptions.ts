@@ -0,0 +1,26 @@
+export type SetOptions = {
+	/**
+	 * The expiration time in seconds, defaults to the instance `expiresIn`.
+	 */
+	expiresIn?: number
+
+	/**
+	 * How long in seconds the value can still be served, flagged as stale, after it expired (default: 0).
+	 */
+	staleFor?: number
+
+	/**
+	 * How long in seconds the value can still be served by `remember` when its factory throws after it expired (default: 0).
+	 */
+	graceFor?: number
+
+	/**
+	 * Whether the value is also written to the in-memory L1 tier (default: true).
+	 */
+	l1?: boolean
+
+	/**
+	 * The tags of the value, every value with a tag can be deleted at once with `invalidateTags`.
+	 */
+	tags?: string[]
+}
@@ -0,0 +1,27 @@
+import { SerializedValue } from './Serializer'
+
+/**
+ * The commands CacheXS sends to its storage, a subset of the Bun `RedisClient` so any Redis connection is a driver.
+ * `send` must also run the `EVAL` scripts of CacheXS and the commands queued on pipelines and transactions.
+ */
+export type StorageDriver = {
+	get(key: string): Promise<string | null>
+	getBuffer(key: string): Promise<Uint8Array | null>
+	mget(...keys: string[]): Promise<(string | null)[]>
+	set(key: string, value: SerializedValue, ...options: string[]): Promise<'OK' | string | null>
+	del(...keys: string[]): Promise<number>
+	exists(key: string): Promise<boolean>
+	expire(key: string, seconds: number): Promise<number>
+	ttl(key: string): Promise<number>
+	pttl(key: string): Promise<number>
+	incr(key: string): Promise<number>
+	decr(key: string): Promise<number>
+	keys(pattern: string): Promise<string[]>
+	scan(cursor: string | number, ...options: (string | number)[]): Promise<[string, string[]]>
+	send(command: string, args: string[]): Promise<unknown>
+	publish(channel: string, message: string): Promise<number>
+	subscribe(channel: string, listener: (message: string, channel: string) => void): Promise<number>
+	unsubscribe(channel: string): Promise<void>
+	duplicate(): Promise<StorageDriver>
+	close(): void
+}
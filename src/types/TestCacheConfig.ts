@@ -0,0 +1,8 @@
+import { CacheXSConfig } from './CacheXSConfig'
+
+export type TestCacheConfig = Omit<CacheXSConfig, 'driver' | 'redisClient' | 'redisUrl' | 'redisOptions' | 'now'> & {
+	/**
+	 * The initial time of the fake clock in milliseconds (default: `Date.now()`).
+	 */
+	startTime?: number
+}
@@ -0,0 +1,9 @@
+export type TierCounters = {
+	hits: number
+	misses: number
+}
+
+export type TierStats = {
+	l1: TierCounters
+	l2: TierCounters
+}
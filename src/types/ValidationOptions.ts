@@ -0,0 +1,19 @@
+import { Validator } from './Validator'
+
+/**
+ * What a read does with a cached value that does not match its schema:
+ * `miss` deletes the key and treats it as missing, `throw` throws a `ValidationError`, `raw` returns the value as is.
+ */
+export type InvalidValueBehavior = 'miss' | 'throw' | 'raw'
+
+export type ValidationOptions<T> = {
+	/**
+	 * The schema or type guard checking the value.
+	 */
+	schema?: Validator<T>
+
+	/**
+	 * What happens when a read value does not match the schema, defaults to the instance `onInvalid`.
+	 */
+	onInvalid?: InvalidValueBehavior
+}
@@ -0,0 +1,30 @@
+/**
+ * An issue reported by a validator, following the Standard Schema specification.
+ */
+export type ValidationIssue = {
+	readonly message: string
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/**
+ * The result of a Standard Schema validation, either the validated value or the issues found.
+ */
+export type StandardSchemaResult<T> =
+	| { readonly value: T; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<ValidationIssue> }
+
+/**
+ * The subset of the Standard Schema interface implemented by Zod, Valibot, ArkType and the other compatible libraries.
+ */
+export type StandardSchema<T> = {
+	readonly '~standard': {
+		readonly version: 1
+		readonly vendor: string
+		readonly validate: (value: unknown) => StandardSchemaResult<T> | Promise<StandardSchemaResult<T>>
+	}
+}
+
+/**
+ * Checks the shape of a cached value, either a Standard Schema compatible schema or a type guard.
+ */
+export type Validator<T> = StandardSchema<T> | ((value: unknown) => value is T)
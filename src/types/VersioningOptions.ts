@@ -0,0 +1,11 @@
+export type VersioningOptions = {
+	/**
+	 * How long in milliseconds the generation of the namespace is cached before it is read again from Redis (default: 1000).
+	 */
+	refreshInterval?: number
+
+	/**
+	 * How often in milliseconds the keys of the previous generations are swept in the background (default: 0, disabled).
+	 */
+	sweepInterval?: number
+}
@@ -0,0 +1,16 @@
+export type WrapOptions<Args extends unknown[]> = {
+	/**
+	 * Builds the key of the result from the arguments of the call, the namespace is added by the cache.
+	 */
+	key: (...args: Args) => string
+
+	/**
+	 * The expiration time in seconds of the results, defaults to the instance `expiresIn`.
+	 */
+	ttl?: number
+
+	/**
+	 * The tags of the results, or a function building them from the arguments of the call.
+	 */
+	tags?: string[] | ((...args: Args) => string[])
+}
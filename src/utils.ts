@@ -0,0 +1,81 @@
+/**
+ * Resolves after the given number of milliseconds.
+ */
+export const sleep = (milliseconds: number): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, milliseconds))
+
+/**
+ * Converts a Redis glob-style pattern (`*`, `?`, `[...]` and `\` escapes) into a regular expression.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+	let source = ''
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i]
+
+		if (char === '*') {
+			source += '[\\s\\S]*'
+		} else if (char === '?') {
+			source += '[\\s\\S]'
+		} else if (char === '\\' && i + 1 < pattern.length) {
+			source += escapeRegExp(pattern[++i])
+		} else if (char === '[') {
+			const end = pattern.indexOf(']', i + 2)
+
+			if (end === -1) {
+				source += '\\['
+				continue
+			}
+
+			const negated = pattern[i + 1] === '^'
+			const body = pattern.slice(negated ? i + 2 : i + 1, end).replace(/[\]\\]/g, '\\$&')
+			source += `[${negated ? '^' : ''}${body}]`
+			i = end
+		} else {
+			source += escapeRegExp(char)
+		}
+	}
+
+	return new RegExp(`^${source}$`)
+}
+
+/**
+ * Escapes the characters with a special meaning in regular expressions.
+ */
+export const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+
+/**
+ * Gets the size in bytes of a serialized payload.
+ */
+export const byteLength = (payload: string | Uint8Array): number =>
+	typeof payload === 'string' ? Buffer.byteLength(payload) : payload.byteLength
+
+/**
+ * Splits a list into chunks of at most the given size.
+ */
+export const chunk = <T>(items: T[], size: number): T[][] => {
+	const chunks: T[][] = []
+
+	for (let i = 0; i < items.length; i += size) {
+		chunks.push(items.slice(i, i + size))
+	}
+
+	return chunks
+}
+
+/**
+ * Wraps a function so it is only called once, the later calls returning the result of the first one.
+ */
+export const once = <T>(fn: () => T): (() => T) => {
+	let called = false
+	let result: T
+
+	return () => {
+		if (!called) {
+			called = true
+			result = fn()
+		}
+
+		return result
+	}
+}
@@ -0,0 +1,22 @@
+import { ValidationIssue, Validator } from './types/Validator'
+
+/**
+ * The result of a validation, either the validated value or the issues found.
+ */
+export type ValidationResult<T> = { valid: true; value: T } | { valid: false; issues: readonly ValidationIssue[] }
+
+/**
+ * Checks a value against a Standard Schema compatible schema or a type guard.
+ * The value returned by a schema replaces the checked one, so its transforms and defaults apply.
+ */
+export const validate = async <T>(validator: Validator<T>, value: unknown): Promise<ValidationResult<T>> => {
+	if (typeof validator === 'function') {
+		return validator(value)
+			? { valid: true, value }
+			: { valid: false, issues: [{ message: 'The value was rejected by the type guard' }] }
+	}
+
+	const result = await validator['~standard'].validate(value)
+
+	return result.issues ? { valid: false, issues: result.issues } : { valid: true, value: result.value }
+}